@@ -0,0 +1,18 @@
+import '../../stylesheets/mermaid.scss'
+import '../render'
+import {MESSAGE_RESPONSE_TYPES, STATUS_TYPES} from '../render/constants'
+import {onDocumentReady} from '../render/utils'
+import {MermaidFileViewer} from './lib/file-viewer'
+
+function init() {
+  const viewer = new MermaidFileViewer<ContainerResizeEvent>({
+    loadEvent: STATUS_TYPES.getContainerSize,
+    onLoadEvent: MESSAGE_RESPONSE_TYPES.containerSize,
+  })
+
+  viewer.initialize()
+}
+
+export {init}
+
+onDocumentReady(init)
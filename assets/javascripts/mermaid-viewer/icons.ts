@@ -0,0 +1,14 @@
+import '../../stylesheets/mermaid.scss'
+import '../render'
+import {onDocumentReady} from '../render/utils'
+import {IconBrowser} from './lib/icon-browser'
+
+function init() {
+  const browser = new IconBrowser()
+
+  browser.initialize()
+}
+
+export {init}
+
+onDocumentReady(init)
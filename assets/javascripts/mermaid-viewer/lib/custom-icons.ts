@@ -0,0 +1,133 @@
+import type {IconifyIcon, IconifyJSON} from '@iconify/types'
+import DOMPurify from 'dompurify'
+import type Status from '../../render/status'
+import iconRegistry from './icon-registry'
+
+const DEFAULT_CUSTOM_ICON_PREFIX = 'repo'
+const ICON_NAME_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/
+
+// Custom icons are optional, so give up quickly rather than holding back the first render
+const CUSTOM_ICONS_LOAD_OPTIONS = {
+  attempts: 2,
+  timeout: 5_000,
+  json: true,
+  setStatus: false,
+}
+
+// Sanitizes a single icon and returns its `<svg>` element, or null when nothing usable is left
+function sanitizeIcon(markup: string) {
+  const sanitized = DOMPurify.sanitize(markup, {
+    USE_PROFILES: {svg: true, svgFilters: true},
+    RETURN_DOM_FRAGMENT: true,
+  })
+
+  return sanitized.querySelector('svg')
+}
+
+// Converts a standalone SVG file into Iconify icon data
+function iconFromSVG(markup: string): IconifyIcon | null {
+  const svg = sanitizeIcon(markup)
+  if (!svg) return null
+
+  const [left = 0, top = 0, width, height] = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number)
+
+  return {
+    body: svg.innerHTML,
+    left,
+    top,
+    width: width || Number(svg.getAttribute('width')) || undefined,
+    height: height || Number(svg.getAttribute('height')) || undefined,
+  }
+}
+
+// Re-sanitizes an icon from an Iconify JSON collection, keeping its dimensions
+function iconFromIconify(icon: IconifyIcon, defaults: IconifyJSON): IconifyIcon | null {
+  const width = icon.width ?? defaults.width ?? 16
+  const height = icon.height ?? defaults.height ?? 16
+  const svg = sanitizeIcon(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">${icon.body}</svg>`,
+  )
+  if (!svg) return null
+
+  return {...icon, body: svg.innerHTML}
+}
+
+const isIconSet = (data: unknown): data is IconifyJSON =>
+  typeof data === 'object' && data !== null && typeof (data as IconifyJSON).icons === 'object'
+
+/**
+ * Builds an Iconify collection from the repository's custom icons. The server hands them over
+ * either as an Iconify JSON collection or as an object mapping icon names to SVG files.
+ */
+function buildIconSet(data: unknown, prefix: string): IconifyJSON {
+  const iconSet: IconifyJSON = {prefix, icons: {}}
+  if (typeof data !== 'object' || data === null) return iconSet
+
+  const entries: Array<[string, IconifyIcon | null]> = isIconSet(data)
+    ? Object.entries(data.icons).map(([name, icon]) => [name, iconFromIconify(icon, data)])
+    : Object.entries(data).map(([name, markup]) => [name, typeof markup === 'string' ? iconFromSVG(markup) : null])
+
+  for (const [name, icon] of entries) {
+    if (!ICON_NAME_PATTERN.test(name) || !icon?.body) {
+      window.debug(`Skipping custom icon '${name}'`)
+      continue
+    }
+    iconSet.icons[name] = icon
+  }
+
+  if (isIconSet(data) && data.aliases) {
+    iconSet.aliases = data.aliases
+  }
+
+  return iconSet
+}
+
+// Shared by every viewer on the page, the collection is fetched and registered once
+let customIcons: Promise<void> | null = null
+
+/**
+ * Fetches the repository's custom icon collection, when the page points at one, and registers
+ * it under its own prefix. Resolves either way: if the icons can't be loaded diagrams render
+ * with the built-in packs only.
+ */
+export function loadCustomIcons(status: Status) {
+  customIcons = customIcons ?? fetchCustomIcons(status)
+  return customIcons
+}
+
+function fetchCustomIcons(status: Status) {
+  const url = document.body.getAttribute('data-custom-icons-url')
+  const prefix = document.body.getAttribute('data-custom-icons-prefix') || DEFAULT_CUSTOM_ICON_PREFIX
+
+  return new Promise<void>(resolve => {
+    if (!url) {
+      resolve()
+      return
+    }
+
+    if (iconRegistry.prefixes.includes(prefix)) {
+      window.debug(`Custom icon prefix '${prefix}' is already used by a bundled icon pack`)
+      resolve()
+      return
+    }
+
+    status.load(url, {
+      ...CUSTOM_ICONS_LOAD_OPTIONS,
+      success: (data: unknown) => {
+        const iconSet = buildIconSet(data, prefix)
+        const info = isIconSet(data) ? data.info : undefined
+        iconRegistry.register(prefix, async () => iconSet, {
+          name: info?.name ?? 'Repository icons',
+          license: info?.license,
+          author: info?.author,
+        })
+        window.debug(`Registered ${Object.keys(iconSet.icons).length} custom icons as '${prefix}'`)
+        resolve()
+      },
+      error: () => {
+        window.debug(`Could not load custom icons from ${url}, using the built-in icon packs only`)
+        resolve()
+      },
+    })
+  })
+}
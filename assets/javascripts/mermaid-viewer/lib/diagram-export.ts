@@ -0,0 +1,92 @@
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink'
+
+export const EXPORT_SCALES = [1, 2, 4]
+
+export type DiagramExport = {
+  filename: string
+  mimeType: string
+  blob: Blob
+}
+
+const viewBoxSize = (svg: SVGSVGElement) => {
+  const [, , width = 0, height = 0] = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number)
+  return {width: width || svg.getBoundingClientRect().width, height: height || svg.getBoundingClientRect().height}
+}
+
+/**
+ * Serializes the rendered diagram as a standalone SVG file.
+ *
+ * The diagram already carries its own <style> element and the icons are drawn inline, so the
+ * clone only needs the namespaces, a real size in place of the responsive one, and the page
+ * font. The pan/zoom transform is dropped so the export always shows the whole diagram.
+ */
+export function exportSVG(svg: SVGSVGElement): DiagramExport {
+  const {width, height} = viewBoxSize(svg)
+  const clone = svg.cloneNode(true) as SVGSVGElement
+
+  clone.style.removeProperty('transform')
+  clone.style.removeProperty('max-width')
+  clone.setAttribute('xmlns', SVG_NAMESPACE)
+  clone.setAttribute('xmlns:xlink', XLINK_NAMESPACE)
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily
+
+  const markup = new XMLSerializer().serializeToString(clone)
+
+  return {
+    filename: 'diagram.svg',
+    mimeType: 'image/svg+xml',
+    blob: new Blob([markup], {type: 'image/svg+xml'}),
+  }
+}
+
+/**
+ * Rasterizes the rendered diagram to a PNG file at `scale` times its natural size.
+ */
+export async function exportPNG(svg: SVGSVGElement, scale: number): Promise<DiagramExport> {
+  const {width, height} = viewBoxSize(svg)
+  const markup = await exportSVG(svg).blob.text()
+
+  // A data URL rather than a blob URL, so browsers don't taint the canvas for SVGs with
+  // <foreignObject> labels
+  const image = new Image()
+  image.width = width
+  image.height = height
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`
+  await image.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(width * scale)
+  canvas.height = Math.ceil(height * scale)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Could not create a canvas to draw the diagram on')
+
+  context.scale(scale, scale)
+  context.drawImage(image, 0, 0, width, height)
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('Could not convert the diagram to PNG')
+
+  return {filename: 'diagram.png', mimeType: 'image/png', blob}
+}
+
+export function download({filename, blob}: DiagramExport) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // give the browser a moment to start the download before releasing the file
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function toDataURL(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
@@ -0,0 +1,62 @@
+// Inline icons only carry an aria-label, read them as part of the label text
+const labelText = (element: Element) => {
+  const clone = element.cloneNode(true) as Element
+  for (const icon of clone.querySelectorAll('.mermaid-inline-icon')) {
+    icon.replaceWith(` ${icon.getAttribute('aria-label') ?? ''} `)
+  }
+  return (clone.textContent ?? '').replace(/\s+/g, ' ').trim()
+}
+
+const uniqueLabels = (elements: Iterable<Element>) => [...new Set(Array.from(elements, labelText))].filter(Boolean)
+
+const appendList = (parent: HTMLElement, heading: string, items: string[]) => {
+  if (!items.length) return
+
+  const title = document.createElement('h3')
+  title.textContent = heading
+  const list = document.createElement('ul')
+  for (const item of items) {
+    const entry = document.createElement('li')
+    entry.textContent = item
+    list.appendChild(entry)
+  }
+  parent.append(title, list)
+}
+
+/**
+ * Builds a text version of a rendered diagram for screen readers: the `accTitle` and
+ * `accDescr` mermaid put in the <title> and <desc> of the SVG, followed by the node and
+ * edge labels.
+ *
+ * Not every diagram type draws nodes, for those the outline lists the text of the diagram.
+ */
+export function createOutline(svg: SVGSVGElement) {
+  const outline = document.createElement('section')
+  outline.className = 'sr-only mermaid-outline'
+  outline.ariaLabel = 'Diagram outline'
+
+  const title = svg.querySelector(':scope > title')?.textContent?.trim()
+  const description = svg.querySelector(':scope > desc')?.textContent?.trim()
+
+  const heading = document.createElement('h2')
+  heading.textContent = title || 'Diagram'
+  outline.appendChild(heading)
+
+  if (description) {
+    const paragraph = document.createElement('p')
+    paragraph.textContent = description
+    outline.appendChild(paragraph)
+  }
+
+  const nodes = uniqueLabels(svg.querySelectorAll('g.node'))
+  const edges = uniqueLabels(svg.querySelectorAll('.edgeLabel'))
+
+  if (nodes.length) {
+    appendList(outline, 'Nodes', nodes)
+    appendList(outline, 'Connections', edges)
+  } else {
+    appendList(outline, 'Labels', uniqueLabels(svg.querySelectorAll('text, foreignObject')))
+  }
+
+  return outline
+}
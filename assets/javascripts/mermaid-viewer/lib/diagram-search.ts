@@ -0,0 +1,130 @@
+import debounce from 'lodash.debounce'
+import octicons from '@primer/octicons'
+import type PanZoom from './pan-zoom'
+
+// Parts of a diagram a search can land on. Inline icons are found through the label they
+// sit in, icons mermaid draws itself through the `data-icon` attribute on their node.
+const SEARCHABLE = 'g.node, g.architecture-service, g.architecture-group, .edgeLabel'
+const MATCH_CLASS = 'mermaid-search-match'
+const CURRENT_CLASS = 'mermaid-search-current'
+
+const searchText = (element: Element) => {
+  const icons = [element, ...element.querySelectorAll('[data-icon]')].map(node => node.getAttribute('data-icon'))
+  return [element.textContent ?? '', ...icons].join(' ').toLowerCase()
+}
+
+/**
+ * Finds nodes and edges of the diagram by their label or by the id of the icon they draw,
+ * e.g. `logos:aws`, which browser find can't do for icon-only nodes. Every match is
+ * highlighted, and stepping through them pans the current one into the middle of the view.
+ */
+class DiagramSearch {
+  panZoom: PanZoom
+  el: HTMLElement
+  #input: HTMLInputElement
+  #count: HTMLElement
+  #matches: Element[] = []
+  #current = -1
+
+  constructor(panZoom: PanZoom) {
+    this.panZoom = panZoom
+
+    this.#input = document.createElement('input')
+    this.#input.type = 'search'
+    this.#input.className = 'form-control diagram-search-input'
+    this.#input.placeholder = 'Find in diagram'
+    this.#input.ariaLabel = 'Find in diagram'
+    this.#input.addEventListener('input', debounce(() => this.update(), 150))
+    this.#input.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        event.preventDefault()
+        this.#step(event.shiftKey ? -1 : 1)
+      } else if (event.key === 'Escape') {
+        this.#input.value = ''
+        this.update()
+      }
+    })
+
+    this.#count = document.createElement('span')
+    this.#count.className = 'diagram-search-count'
+    this.#count.setAttribute('aria-live', 'polite')
+
+    this.el = document.createElement('div')
+    this.el.className = 'diagram-search'
+    this.el.setAttribute('role', 'search')
+    this.el.append(
+      this.#input,
+      this.#createButton('previous', octicons['arrow-up'].toSVG(), 'Previous match', () => this.#step(-1)),
+      this.#createButton('next', octicons['arrow-down'].toSVG(), 'Next match', () => this.#step(1)),
+      this.#count,
+    )
+  }
+
+  // Runs the search again, on the query changing or the diagram being rendered again. After a
+  // render the current match is kept without moving the view.
+  update(reveal = true) {
+    const previous = this.#current
+
+    for (const match of this.#matches) {
+      match.classList.remove(MATCH_CLASS, CURRENT_CLASS)
+    }
+
+    const query = this.#input.value.trim().toLowerCase()
+    const svg = this.panZoom.svg
+    const candidates = query && svg ? [...svg.querySelectorAll(SEARCHABLE)] : []
+    this.#matches = candidates.filter(candidate => searchText(candidate).includes(query))
+    this.#current = -1
+
+    for (const match of this.#matches) {
+      match.classList.add(MATCH_CLASS)
+    }
+
+    if (!this.#matches.length) {
+      this.#count.textContent = query ? 'No matches' : ''
+    } else if (reveal) {
+      this.#select(0, true)
+    } else {
+      this.#select(Math.min(Math.max(previous, 0), this.#matches.length - 1), false)
+    }
+  }
+
+  #step(direction: number) {
+    if (!this.#matches.length) return
+
+    this.#select((this.#current + direction + this.#matches.length) % this.#matches.length, true)
+  }
+
+  #select(index: number, reveal: boolean) {
+    this.#matches[this.#current]?.classList.remove(CURRENT_CLASS)
+    this.#current = index
+
+    const match = this.#matches[index]
+    match.classList.add(CURRENT_CLASS)
+    this.#count.textContent = `${index + 1} of ${this.#matches.length}`
+    if (reveal) this.#centre(match)
+  }
+
+  #centre(match: Element) {
+    const {left, top, width, height} = match.getBoundingClientRect()
+    // the pane the diagram is shown in, one of several sections or a box on a page
+    const pane = this.panZoom.el.getBoundingClientRect()
+    const {zoom, x, y} = this.panZoom.transform
+
+    this.panZoom.animateTo({
+      zoom,
+      x: x + pane.left + pane.width / 2 - (left + width / 2),
+      y: y + pane.top + pane.height / 2 - (top + height / 2),
+    })
+  }
+
+  #createButton(name: string, icon: string, label: string, onClick: () => void) {
+    const button = document.createElement('button')
+    button.className = `btn diagram-search-${name}`
+    button.innerHTML = icon
+    button.ariaLabel = label
+    button.onclick = onClick
+    return button
+  }
+}
+
+export default DiagramSearch
@@ -0,0 +1,44 @@
+import {STATUS_TYPES} from '../../render/constants'
+import MermaidRenderer from './mermaid-renderer'
+import {MermaidViewer} from './mermaid-viewer'
+import type {Renderable} from './mermaid-viewer'
+
+/**
+ * Renders a standalone .mmd/.mermaid file. The source is fetched from `data-file-url`, then the
+ * parent is asked for the width of its container and the diagram is rendered at that width,
+ * with the same two-pass ready/ack flow as fenced blocks.
+ */
+class MermaidFileViewer<T extends ContainerResizeEvent | MarkdownResponseEvent> extends MermaidViewer<T> {
+  source = ''
+
+  initialize() {
+    const url = document.body.getAttribute('data-file-url')
+    if (!url) {
+      this.iframeMessenger.set(STATUS_TYPES.invalid)
+      return window.debug('No data-file-url to load the diagram from')
+    }
+
+    this.iframeMessenger.load(url, {
+      json: false,
+      success: data => {
+        this.source = data instanceof ArrayBuffer ? new TextDecoder().decode(data) : String(data)
+        if (this.loadEvent) this.iframeMessenger.set(this.loadEvent)
+      },
+    })
+  }
+
+  onLoad(event: ContainerResizeEvent, renderer?: Renderable) {
+    const width = event.detail.width
+
+    if (!renderer) {
+      renderer = new MermaidRenderer({data: this.source, el: this.el, width})
+      window.addEventListener('resize', this.lazyRender(renderer))
+    } else {
+      renderer.width = width
+    }
+
+    return renderer
+  }
+}
+
+export {MermaidFileViewer}
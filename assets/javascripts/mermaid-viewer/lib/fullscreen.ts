@@ -0,0 +1,113 @@
+import debounce from 'lodash.debounce'
+import {MESSAGE_RESPONSE_TYPES, STATUS_TYPES} from '../../render/constants'
+import type Status from '../../render/status'
+import type PanZoom from './pan-zoom'
+import type {Transform} from './pan-zoom'
+
+/**
+ * Shows the diagram over the whole screen, fitted to it.
+ *
+ * Uses the Fullscreen API when the iframe is allowed to, otherwise asks the embedding page to
+ * show the iframe in an overlay. Leaving fullscreen brings back the pan and zoom from before.
+ */
+class Fullscreen {
+  panZoom: PanZoom
+  iframeMessenger: Status
+  // what goes fullscreen, along with the diagram it has to hold the controls
+  target: HTMLElement
+  #previous: Transform | null = null
+  #overlay = false
+  #listeners: Array<(active: boolean) => void> = []
+
+  constructor(panZoom: PanZoom, iframeMessenger: Status, target: HTMLElement = document.documentElement) {
+    this.panZoom = panZoom
+    this.iframeMessenger = iframeMessenger
+    this.target = target
+
+    document.addEventListener('fullscreenchange', () => {
+      if (document.fullscreenElement === this.target) {
+        this.refit()
+      } else if (!this.#overlay) {
+        this.#left()
+      }
+    })
+    document.addEventListener(MESSAGE_RESPONSE_TYPES.fullscreenExit, () => {
+      if (!this.#overlay) return
+
+      this.#overlay = false
+      this.#left()
+    })
+    // the overlay only changes the height of the iframe when the width already fits
+    window.addEventListener('resize', debounce(() => this.refit(), 200))
+  }
+
+  get active() {
+    return this.#previous !== null
+  }
+
+  onChange(listener: (active: boolean) => void) {
+    this.#listeners.push(listener)
+  }
+
+  toggle = () => (this.active ? this.exit() : this.enter())
+
+  async enter() {
+    if (this.active) return
+
+    this.#previous = this.panZoom.transform
+    this.#notify()
+
+    if (document.fullscreenEnabled) {
+      try {
+        await this.target.requestFullscreen()
+        return
+      } catch (error) {
+        window.debug('Could not enter fullscreen:', error)
+      }
+    }
+
+    if (!this.iframeMessenger.haveParent()) {
+      this.refit()
+      return
+    }
+
+    // the diagram is fitted again once the parent has resized the iframe
+    this.#overlay = true
+    this.iframeMessenger.set(STATUS_TYPES.fullscreen, {fullscreen: true})
+  }
+
+  async exit() {
+    if (document.fullscreenElement === this.target) {
+      // fullscreenchange takes it from here
+      await document.exitFullscreen()
+      return
+    }
+
+    if (this.#overlay) {
+      this.#overlay = false
+      this.iframeMessenger.set(STATUS_TYPES.fullscreen, {fullscreen: false})
+    }
+
+    this.#left()
+  }
+
+  // Fits the diagram to its pane again, e.g. after it was rendered at the fullscreen width
+  refit() {
+    if (this.active) this.panZoom.fitToView()
+  }
+
+  #left() {
+    if (!this.#previous) return
+
+    this.panZoom.setTransform(this.#previous)
+    this.#previous = null
+    this.#notify()
+  }
+
+  #notify() {
+    document.body.classList.toggle('is-fullscreen', this.active)
+    for (const listener of this.#listeners) listener(this.active)
+  }
+}
+
+export default Fullscreen
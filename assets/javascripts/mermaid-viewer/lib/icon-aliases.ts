@@ -0,0 +1,111 @@
+import {manifest} from './icon-manifest'
+import type {IconManifest} from './icon-manifest'
+import type RewrittenSource from './rewritten-source'
+
+export type IconReference = {
+  id: string
+  prefix: string
+  name: string
+}
+
+export type AliasResolution =
+  | {status: 'resolved'; icon: IconReference; aliased: boolean}
+  | {status: 'ambiguous'; candidates: string[]}
+  | {status: 'unknown'}
+
+// Icons referenced with mermaid's own syntax, `service db(logos:postgresql)` in architecture
+// diagrams and `A@{ icon: "logos:aws" }` shapes in flowcharts. Matches the icon id alone.
+export const MERMAID_ICON_REFERENCES = [
+  /(?<=^\s*(?:service|group|junction)\s+[\w-]+\s*\(\s*)[\w-]+(?::[\w-]+)?(?=\s*\))/gm,
+  /(?<=\bicon\s*:\s*["'])[\w-]+(?::[\w-]+)?(?=["'])/g,
+]
+
+// Mermaid draws its own architecture icons for these names, they are never taken for aliases
+const MERMAID_BUILTIN_ICONS = new Set(['blank', 'cloud', 'database', 'disk', 'internet', 'server', 'unknown'])
+
+const toReference = (prefix: string, name: string): IconReference => ({id: `${prefix}:${name}`, prefix, name})
+
+/**
+ * Resolves the short and legacy icon names configured in manifest.json to canonical icon ids.
+ *
+ * - `aws` is looked up in the manifest wide aliases first, then in the aliases of every pack.
+ *   When more than one pack claims the alias it is ambiguous and isn't resolved at all.
+ * - `logos:postgres` is looked up in the aliases of the `logos` pack, falling back to the
+ *   icon name as written.
+ */
+class IconAliasTable {
+  #global = new Map<string, IconReference>()
+  #packs = new Map<string, Record<string, string>>()
+  #shared = new Map<string, IconReference[]>()
+
+  constructor({packs, aliases}: IconManifest) {
+    for (const [alias, id] of Object.entries(aliases)) {
+      const [prefix, name] = id.split(':')
+      this.#global.set(alias, toReference(prefix, name))
+    }
+
+    for (const pack of packs) {
+      this.#packs.set(pack.prefix, pack.aliases)
+
+      for (const [alias, name] of Object.entries(pack.aliases)) {
+        const candidates = this.#shared.get(alias) ?? []
+        candidates.push(toReference(pack.prefix, name))
+        this.#shared.set(alias, candidates)
+      }
+    }
+  }
+
+  resolve(reference: string): AliasResolution {
+    const [prefix, name] = reference.split(':')
+
+    if (name) {
+      const aliased = this.#packs.get(prefix)?.[name]
+      return {status: 'resolved', icon: toReference(prefix, aliased ?? name), aliased: Boolean(aliased)}
+    }
+
+    const global = this.#global.get(reference)
+    if (global) return {status: 'resolved', icon: global, aliased: true}
+
+    const candidates = this.#shared.get(reference) ?? []
+    if (candidates.length === 1) return {status: 'resolved', icon: candidates[0], aliased: true}
+    if (candidates.length > 1) return {status: 'ambiguous', candidates: candidates.map(({id}) => id)}
+
+    return {status: 'unknown'}
+  }
+
+  // Same as `resolve`, except that names without a prefix that aren't aliases are left to mermaid
+  resolveMermaidIcon(reference: string): AliasResolution {
+    if (MERMAID_BUILTIN_ICONS.has(reference)) return {status: 'unknown'}
+    return this.resolve(reference)
+  }
+
+  // Rewrites the aliases in mermaid's own icon references to icon ids mermaid can draw
+  applyToMermaidReferences(source: RewrittenSource) {
+    return MERMAID_ICON_REFERENCES.reduce(
+      (rewritten, pattern) =>
+        rewritten.replace(pattern, ([written]) => {
+          const resolution = this.resolveMermaidIcon(written)
+          return resolution.status === 'resolved' ? resolution.icon.id : written
+        }),
+      source,
+    )
+  }
+
+  // Every alias that can be written on its own, e.g. `aws`, along with the icon it draws.
+  // Ambiguous aliases are left out.
+  entries() {
+    const entries: Array<[string, IconReference]> = []
+    const aliases = new Set([...this.#global.keys(), ...this.#shared.keys()])
+
+    for (const alias of aliases) {
+      const resolution = this.resolve(alias)
+      if (resolution.status === 'resolved') entries.push([alias, resolution.icon])
+    }
+
+    return entries
+  }
+}
+
+const iconAliases = new IconAliasTable(manifest)
+
+export default iconAliases
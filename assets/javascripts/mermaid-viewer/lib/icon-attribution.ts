@@ -0,0 +1,43 @@
+import octicons from '@primer/octicons'
+import type {IconPackInfo} from './icon-registry'
+
+type AttributionMode = 'footer' | 'tooltip'
+
+// The embedding page opts into showing credits with `data-icon-attribution="footer|tooltip"`
+const attributionMode = (): AttributionMode | null => {
+  const mode = document.body.getAttribute('data-icon-attribution')
+  return mode === 'footer' || mode === 'tooltip' ? mode : null
+}
+
+const describePack = ({name, author, license}: IconPackInfo) => {
+  let credit = name
+  if (author) credit += ` by ${author.name}`
+  if (license) credit += ` (${license.spdx ?? license.title})`
+  return credit
+}
+
+const formatAttribution = (packs: IconPackInfo[]) => `Icons: ${packs.map(describePack).join(', ')}`
+
+/**
+ * Builds the credits for the icon packs a diagram used, either as a footer below the diagram
+ * or as an info badge with a tooltip. Returns null when the page didn't ask for credits.
+ */
+export function createAttribution(packs: IconPackInfo[]) {
+  const mode = attributionMode()
+  if (!mode || !packs.length) return null
+
+  const text = formatAttribution(packs)
+  const element = document.createElement('div')
+  element.className = `mermaid-attribution mermaid-attribution-${mode}`
+
+  if (mode === 'footer') {
+    element.textContent = text
+  } else {
+    element.innerHTML = octicons['info'].toSVG()
+    element.title = text
+    element.ariaLabel = text
+    element.tabIndex = 0
+  }
+
+  return element
+}
@@ -0,0 +1,215 @@
+import type {IconifyJSON} from '@iconify/types'
+import {getIconData, iconToSVG, replaceIDs} from '@iconify/utils'
+import debounce from 'lodash.debounce'
+import {MESSAGE_RESPONSE_TYPES, RENDER_FORMATS, STATUS_TYPES} from '../../render/constants'
+import Status from '../../render/status'
+import {assertHTMLElement, invariant} from '../../render/utils'
+import {loadCustomIcons} from './custom-icons'
+import iconAliases from './icon-aliases'
+import iconRegistry from './icon-registry'
+// registers the icon packs from manifest.json
+import './mermaid-initializer'
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+
+// Every cell in the gallery is a square of this size, which lets the grid work out which
+// icons are on screen from the scroll position alone.
+const CELL_SIZE = 96
+const ICON_SIZE = 40
+const GRID_HEIGHT = 480
+// Rows drawn above and below the visible ones so fast scrolling doesn't flash empty space
+const OVERSCAN_ROWS = 2
+
+type IconEntry = {
+  // what authors write in a diagram, e.g. `icon:logos:aws` or `icon:aws`
+  snippet: string
+  prefix: string
+  name: string
+}
+
+/**
+ * A searchable gallery of every icon the viewer can draw, including custom icons and aliases.
+ * Clicking an icon copies its `icon:prefix:name` snippet.
+ *
+ * Only the rows in view are in the DOM, the bundled packs alone hold thousands of icons.
+ */
+class IconBrowser {
+  el: HTMLElement
+  iframeMessenger: Status
+  #entries: IconEntry[] = []
+  #matches: IconEntry[] = []
+  #packs = new Map<string, IconifyJSON>()
+  #search: HTMLInputElement
+  #grid: HTMLElement
+  #cells: HTMLElement
+  #announcer: HTMLElement
+  #frame: number | null = null
+
+  constructor() {
+    const node = document.querySelector('.mermaid-view')
+
+    invariant(assertHTMLElement(node), `Icon browser root node does not exist. Got ${document.body.innerHTML}`)
+
+    this.el = node
+    this.iframeMessenger = new Status(RENDER_FORMATS.mermaid)
+
+    this.#search = document.createElement('input')
+    this.#search.type = 'search'
+    this.#search.className = 'form-control icon-browser-search'
+    this.#search.placeholder = 'Search icons'
+    this.#search.ariaLabel = 'Search icons'
+    this.#search.addEventListener(
+      'input',
+      debounce(() => this.#filter(this.#search.value), 150),
+    )
+
+    this.#grid = document.createElement('div')
+    this.#grid.className = 'icon-browser-grid'
+    this.#grid.style.height = `${GRID_HEIGHT}px`
+    this.#grid.style.overflowY = 'auto'
+    this.#grid.addEventListener('scroll', this.#scheduleDraw)
+
+    this.#cells = document.createElement('div')
+    this.#cells.className = 'icon-browser-cells'
+    this.#cells.style.position = 'relative'
+    this.#cells.setAttribute('role', 'list')
+    this.#grid.appendChild(this.#cells)
+
+    this.#announcer = document.createElement('div')
+    this.#announcer.className = 'sr-only'
+    this.#announcer.setAttribute('aria-live', 'polite')
+
+    this.el.replaceChildren(this.#search, this.#grid, this.#announcer)
+
+    // the iframe is resized after the ready message, lay the grid out again at its final width
+    document.addEventListener(MESSAGE_RESPONSE_TYPES.readyAck, this.#scheduleDraw)
+    window.addEventListener('resize', debounce(this.#scheduleDraw, 200))
+  }
+
+  async initialize() {
+    try {
+      await loadCustomIcons(this.iframeMessenger)
+      await this.#loadEntries()
+      this.#filter('')
+
+      const {height} = this.el.getBoundingClientRect()
+      this.iframeMessenger.set(STATUS_TYPES.ready, {height, ack: true})
+    } catch (error) {
+      this.iframeMessenger.set(STATUS_TYPES.error, {error: (error as Error).message})
+      window.debug(error)
+    }
+  }
+
+  // A pack that fails to load is left out, the browser shows the others
+  async #loadEntries() {
+    const prefixes = iconRegistry.prefixes
+    const results = await Promise.allSettled(prefixes.map(prefix => iconRegistry.load(prefix)))
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'fulfilled') {
+        this.#packs.set(prefixes[index], result.value)
+      } else {
+        window.debug(`Icon pack '${prefixes[index]}' could not be loaded:`, result.reason)
+      }
+    }
+
+    const icons = (await iconRegistry.listIcons()).map(id => {
+      const [prefix, name] = id.split(':')
+      return {snippet: `icon:${id}`, prefix, name}
+    })
+    const aliases = iconAliases
+      .entries()
+      .filter(([, {prefix}]) => this.#packs.has(prefix))
+      .map(([alias, {prefix, name}]) => ({snippet: `icon:${alias}`, prefix, name}))
+
+    this.#entries = [...aliases, ...icons]
+  }
+
+  #filter(query: string) {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+    this.#matches = this.#entries.filter(({snippet}) => terms.every(term => snippet.includes(term)))
+    this.#grid.scrollTop = 0
+    this.#announce(`${this.#matches.length} icons`)
+    this.#draw()
+  }
+
+  #scheduleDraw = () => {
+    if (this.#frame !== null) return
+
+    this.#frame = requestAnimationFrame(() => {
+      this.#frame = null
+      this.#draw()
+    })
+  }
+
+  #draw() {
+    const columns = Math.max(1, Math.floor(this.#grid.clientWidth / CELL_SIZE))
+    const rows = Math.ceil(this.#matches.length / columns)
+    this.#cells.style.height = `${rows * CELL_SIZE}px`
+
+    const firstRow = Math.max(0, Math.floor(this.#grid.scrollTop / CELL_SIZE) - OVERSCAN_ROWS)
+    const lastRow = Math.min(rows, Math.ceil((this.#grid.scrollTop + GRID_HEIGHT) / CELL_SIZE) + OVERSCAN_ROWS)
+
+    const df = document.createDocumentFragment()
+    for (let index = firstRow * columns; index < Math.min(lastRow * columns, this.#matches.length); index++) {
+      const cell = this.#createCell(this.#matches[index])
+      cell.style.left = `${(index % columns) * CELL_SIZE}px`
+      cell.style.top = `${Math.floor(index / columns) * CELL_SIZE}px`
+      df.appendChild(cell)
+    }
+
+    this.#cells.replaceChildren(df)
+  }
+
+  #createCell(entry: IconEntry) {
+    const cell = document.createElement('button')
+    cell.className = 'btn-octicon icon-browser-cell'
+    cell.title = entry.snippet
+    cell.setAttribute('role', 'listitem')
+    cell.style.position = 'absolute'
+    cell.style.width = `${CELL_SIZE}px`
+    cell.style.height = `${CELL_SIZE}px`
+    cell.onclick = () => this.#copy(entry.snippet)
+
+    const pack = this.#packs.get(entry.prefix)
+    const data = pack ? getIconData(pack, entry.name) : null
+    if (data) {
+      const {attributes, body} = iconToSVG(data, {height: String(ICON_SIZE)})
+      const svg = document.createElementNS(SVG_NAMESPACE, 'svg')
+      for (const [name, value] of Object.entries(attributes)) {
+        svg.setAttribute(name, value)
+      }
+      svg.setAttribute('aria-hidden', 'true')
+      svg.innerHTML = replaceIDs(body)
+      cell.appendChild(svg)
+    }
+
+    const label = document.createElement('span')
+    label.className = 'icon-browser-label'
+    label.textContent = entry.snippet
+    cell.appendChild(label)
+
+    return cell
+  }
+
+  async #copy(snippet: string) {
+    try {
+      await navigator.clipboard.writeText(snippet)
+    } catch {
+      // the clipboard API isn't always allowed inside an iframe
+      const textarea = document.createElement('textarea')
+      textarea.value = snippet
+      document.body.appendChild(textarea)
+      textarea.select()
+      document.execCommand('copy')
+      textarea.remove()
+    }
+
+    this.#announce(`Copied ${snippet}`)
+  }
+
+  #announce(message: string) {
+    this.#announcer.textContent = message
+  }
+}
+
+export {IconBrowser}
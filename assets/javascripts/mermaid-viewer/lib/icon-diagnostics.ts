@@ -0,0 +1,174 @@
+import iconAliases, {MERMAID_ICON_REFERENCES} from './icon-aliases'
+import type {AliasResolution} from './icon-aliases'
+import iconRegistry from './icon-registry'
+import {ICON_TOKEN} from './inline-icons'
+
+// The same references along with the node they draw. Mermaid ids the rendered architecture
+// nodes `service-db` and flowchart shapes `flowchart-A-0`, possibly behind the diagram id.
+const ARCHITECTURE_ICON_NODE = /^\s*(service|group)\s+([\w-]+)\s*\(\s*([\w-]+(?::[\w-]+)?)\s*\)/gm
+const FLOWCHART_ICON_NODE = /([\w-]+)@\{[^}]*\bicon\s*:\s*["']([\w-]+(?::[\w-]+)?)["']/g
+
+const MAX_SUGGESTIONS = 3
+
+export type UnresolvedIcon = {
+  // the icon as written in the diagram source
+  icon: string
+  // 1-based line in the diagram source
+  line: number
+  suggestions: string[]
+  // an alias several icon packs claim, `suggestions` holds the icons it could mean
+  ambiguous?: boolean
+}
+
+type IconOccurrence = {
+  icon: string
+  line: number
+  resolve: () => Promise<{found: boolean; prefix?: string; candidates?: string[]; ambiguous?: boolean}>
+}
+
+/**
+ * Goes through every icon reference in the diagram source. Returns the icon packs the diagram
+ * draws from, and the icons that won't be drawn along with "did you mean" suggestions from
+ * the registered icon packs.
+ */
+export async function inspectIcons(source: string) {
+  const unresolved: UnresolvedIcon[] = []
+  const usedPrefixes = new Set<string>()
+  let knownIcons: string[] | null = null
+
+  for (const {icon, line, resolve} of findIconOccurrences(source)) {
+    const {found, prefix, candidates, ambiguous} = await resolve()
+    if (found && prefix) {
+      usedPrefixes.add(prefix)
+      continue
+    }
+
+    knownIcons = knownIcons ?? (await iconRegistry.listIcons())
+    unresolved.push({
+      icon,
+      line,
+      suggestions: candidates ?? suggestIcons(icon, knownIcons),
+      ...(ambiguous && {ambiguous}),
+    })
+  }
+
+  return {unresolved, usedPrefixes: Array.from(usedPrefixes)}
+}
+
+/**
+ * Marks the nodes mermaid drew an icon for with a `data-icon` attribute holding the icon id,
+ * as inline icons already are, so the diagram can be searched by icon.
+ */
+export function annotateIconNodes(svg: SVGSVGElement, source: string) {
+  const nodes: Array<{id: RegExp; icon: string}> = []
+
+  // aliases are marked with the icon they draw
+  const resolve = (icon: string) => {
+    const resolution = iconAliases.resolveMermaidIcon(icon)
+    return resolution.status === 'resolved' ? resolution.icon.id : null
+  }
+
+  for (const [, kind, node, written] of source.matchAll(ARCHITECTURE_ICON_NODE)) {
+    const icon = resolve(written)
+    if (icon) nodes.push({id: new RegExp(`(?:^|-)${kind}-${node}$`), icon})
+  }
+  for (const [, node, written] of source.matchAll(FLOWCHART_ICON_NODE)) {
+    const icon = resolve(written)
+    if (icon) nodes.push({id: new RegExp(`(?:^|-)flowchart-${node}-\\d+$`), icon})
+  }
+  if (!nodes.length) return
+
+  for (const element of svg.querySelectorAll('g[id]')) {
+    const node = nodes.find(({id}) => id.test(element.id))
+    if (node) element.setAttribute('data-icon', node.icon)
+  }
+}
+
+export function formatUnresolvedIcons(unresolved: UnresolvedIcon[]) {
+  return unresolved
+    .map(({icon, line, suggestions, ambiguous}) => {
+      if (ambiguous) {
+        return `Ambiguous icon alias '${icon}' on line ${line}, use one of ${suggestions.join(', ')}.`
+      }
+      const hint = suggestions.length ? ` Did you mean ${suggestions.join(', ')}?` : ''
+      return `Unknown icon '${icon}' on line ${line}.${hint}`
+    })
+    .join('\n')
+}
+
+function findIconOccurrences(source: string) {
+  const occurrences: IconOccurrence[] = []
+
+  for (const [index, text] of source.split('\n').entries()) {
+    const line = index + 1
+
+    for (const [token, written] of text.matchAll(ICON_TOKEN)) {
+      occurrences.push({icon: token, line, resolve: () => resolveReference(iconAliases.resolve(written))})
+    }
+
+    for (const pattern of MERMAID_ICON_REFERENCES) {
+      for (const [written] of text.matchAll(pattern)) {
+        const resolution = iconAliases.resolveMermaidIcon(written)
+        // mermaid falls back to its built-in architecture icons for other names without a prefix
+        if (!written.includes(':') && resolution.status === 'unknown') continue
+
+        occurrences.push({icon: written, line, resolve: () => resolveReference(resolution)})
+      }
+    }
+  }
+
+  return occurrences
+}
+
+async function resolveReference(resolution: AliasResolution) {
+  if (resolution.status === 'ambiguous') {
+    return {found: false, candidates: resolution.candidates, ambiguous: true}
+  }
+  if (resolution.status === 'unknown') {
+    return {found: false}
+  }
+
+  const {prefix, name} = resolution.icon
+  return {found: await hasIcon(prefix, name), prefix}
+}
+
+async function hasIcon(prefix: string, name: string) {
+  return (await iconRegistry.getIcon(prefix, name)) !== null
+}
+
+function suggestIcons(icon: string, knownIcons: string[]) {
+  const [prefix, name] = icon
+    .replace(/^icon:/, '')
+    .replace(/\{.*\}$/, '')
+    .split(':')
+  // `icon:aws` style references could match a name in any pack
+  const wanted = name ?? prefix
+  const threshold = Math.max(2, Math.floor(wanted.length / 3))
+
+  return knownIcons
+    .map(id => {
+      const [knownPrefix, knownName] = id.split(':')
+      const samePack = !name || knownPrefix === prefix
+      // prefer icons from the pack that was asked for
+      return {id, distance: levenshtein(wanted, knownName) + (samePack ? 0 : 1)}
+    })
+    .filter(({distance}) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({id}) => id)
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({length: b.length + 1}, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
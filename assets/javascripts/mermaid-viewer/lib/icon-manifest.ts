@@ -0,0 +1,233 @@
+import manifestJSON from '../../../../manifest.json'
+
+/**
+ * The manifest format understood by this build. Bump it together with `manifest.schema.json`
+ * whenever a change to the format is not backwards compatible.
+ */
+export const MANIFEST_VERSION = 1
+
+// Iconify collection names and prefixes, e.g. `logos` or `simple-icons`
+const NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i
+// Mermaid themes a pack can provide variants for
+const THEMES = ['default', 'dark', 'forest', 'neutral', 'base']
+// Aliases are written where an icon name goes, `icon:aws` or `logos:postgres`
+const ALIAS_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/
+// Full Iconify icon ids, e.g. `logos:aws`
+const ICON_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*:[a-z0-9]+(?:[-_][a-z0-9]+)*$/
+
+export type IconPackLicense = {
+  title: string
+  spdx?: string
+  url?: string
+}
+
+export type IconPackAuthor = {
+  name: string
+  url?: string
+}
+
+export type IconPackTheme = {
+  // Icon names mapped to the icon to draw in their place, e.g. a white version of a black logo
+  icons: Record<string, string>
+  // Colors mapped to the color to draw instead, applied to every icon without a variant
+  recolor: Record<string, string>
+}
+
+export type IconPackManifest = {
+  // Name of the `@iconify-json/*` package the icons are bundled from
+  collection: string
+  // Prefix the icons are registered under, defaults to the collection name
+  prefix: string
+  // Display name used when crediting the pack, defaults to the collection name
+  name: string
+  // Exact version of the bundled package
+  version: string
+  license: IconPackLicense
+  author?: IconPackAuthor
+  aliases: Record<string, string>
+  // Variants keyed by mermaid theme
+  themes: Record<string, IconPackTheme>
+}
+
+export type IconManifest = {
+  version: typeof MANIFEST_VERSION
+  packs: IconPackManifest[]
+  // Short names mapped to full icon ids, these win over the aliases of individual packs
+  aliases: Record<string, string>
+}
+
+type Fields = Record<string, unknown>
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Validates the raw contents of `manifest.json`.
+ *
+ * Invalid packs are left out of the returned manifest rather than failing the whole file, so a
+ * single typo doesn't take every icon down with it. Each problem is described in `errors`.
+ */
+export function validateManifest(raw: unknown): {manifest: IconManifest; errors: string[]} {
+  const manifest: IconManifest = {version: MANIFEST_VERSION, packs: [], aliases: {}}
+  const errors: string[] = []
+
+  if (!isObject(raw)) {
+    errors.push('manifest.json must contain a JSON object')
+    return {manifest, errors}
+  }
+
+  if (raw.version !== MANIFEST_VERSION) {
+    errors.push(`version: expected ${MANIFEST_VERSION}, got ${JSON.stringify(raw.version)}`)
+    return {manifest, errors}
+  }
+
+  if (!Array.isArray(raw.packs)) {
+    errors.push('packs: expected an array of icon packs')
+    return {manifest, errors}
+  }
+
+  const {aliases = {}} = raw
+  if (!isObject(aliases)) {
+    errors.push('aliases: expected an object mapping alias names to icon ids')
+  } else {
+    for (const [alias, id] of Object.entries(aliases)) {
+      if (!ALIAS_PATTERN.test(alias)) {
+        errors.push(`aliases.${alias}: expected lowercase letters, digits, dashes and underscores`)
+      } else if (typeof id !== 'string' || !ICON_ID_PATTERN.test(id)) {
+        errors.push(`aliases.${alias}: expected an icon id such as "logos:aws"`)
+      } else {
+        manifest.aliases[alias] = id
+      }
+    }
+  }
+
+  const prefixes = new Set<string>()
+  for (const [index, entry] of raw.packs.entries()) {
+    const path = `packs[${index}]`
+    const packErrors: string[] = []
+    const pack = validatePack(entry, path, packErrors)
+
+    if (pack && prefixes.has(pack.prefix)) {
+      packErrors.push(`${path}.prefix: '${pack.prefix}' is already used by another pack`)
+    }
+
+    if (pack && !packErrors.length) {
+      prefixes.add(pack.prefix)
+      manifest.packs.push(pack)
+    }
+    errors.push(...packErrors)
+  }
+
+  return {manifest, errors}
+}
+
+function validatePack(entry: unknown, path: string, errors: string[]): IconPackManifest | null {
+  if (!isObject(entry)) {
+    errors.push(`${path}: expected an object`)
+    return null
+  }
+
+  const {collection, prefix = collection, name = collection, version, license, author, aliases = {}, themes = {}} = entry
+
+  if (typeof collection !== 'string' || !NAME_PATTERN.test(collection)) {
+    errors.push(`${path}.collection: expected an Iconify collection name such as "logos"`)
+  }
+  if (typeof prefix !== 'string' || !NAME_PATTERN.test(prefix)) {
+    errors.push(`${path}.prefix: expected lowercase letters, digits and dashes`)
+  }
+  if (typeof name !== 'string') {
+    errors.push(`${path}.name: expected a string`)
+  }
+  if (typeof version !== 'string' || !VERSION_PATTERN.test(version)) {
+    errors.push(`${path}.version: expected an exact version such as "1.2.3"`)
+  }
+  if (!isObject(license) || typeof license.title !== 'string') {
+    errors.push(`${path}.license: expected an object with at least a "title"`)
+  } else {
+    validateOptionalStrings(license, ['spdx', 'url'], `${path}.license`, errors)
+  }
+  if (author !== undefined) {
+    if (!isObject(author) || typeof author.name !== 'string') {
+      errors.push(`${path}.author: expected an object with at least a "name"`)
+    } else {
+      validateOptionalStrings(author, ['url'], `${path}.author`, errors)
+    }
+  }
+  if (!isObject(aliases)) {
+    errors.push(`${path}.aliases: expected an object mapping alias names to icon names`)
+  } else {
+    for (const [alias, iconName] of Object.entries(aliases)) {
+      if (!ALIAS_PATTERN.test(alias)) {
+        errors.push(`${path}.aliases.${alias}: expected lowercase letters, digits, dashes and underscores`)
+      } else if (typeof iconName !== 'string' || !iconName) {
+        errors.push(`${path}.aliases.${alias}: expected an icon name`)
+      }
+    }
+  }
+
+  if (!isObject(themes)) {
+    errors.push(`${path}.themes: expected an object keyed by mermaid theme`)
+  } else {
+    for (const [theme, variant] of Object.entries(themes)) {
+      validateTheme(theme, variant, `${path}.themes.${theme}`, errors)
+    }
+  }
+
+  if (errors.length) return null
+
+  return {
+    collection,
+    prefix,
+    name,
+    version,
+    license,
+    author,
+    aliases,
+    themes: Object.fromEntries(
+      Object.entries(themes as Fields).map(([theme, variant]) => [theme, {icons: {}, recolor: {}, ...(variant as Fields)}]),
+    ),
+  } as IconPackManifest
+}
+
+function validateTheme(theme: string, variant: unknown, path: string, errors: string[]) {
+  if (!THEMES.includes(theme)) {
+    errors.push(`${path}: expected one of the mermaid themes ${THEMES.join(', ')}`)
+    return
+  }
+  if (!isObject(variant)) {
+    errors.push(`${path}: expected an object with "icons" and/or "recolor"`)
+    return
+  }
+
+  const {icons = {}, recolor = {}} = variant
+  if (!isObject(icons) || Object.values(icons).some(name => typeof name !== 'string' || !name)) {
+    errors.push(`${path}.icons: expected an object mapping icon names to icon names`)
+  }
+  if (!isObject(recolor)) {
+    errors.push(`${path}.recolor: expected an object mapping colors to colors`)
+    return
+  }
+  for (const [from, to] of Object.entries(recolor)) {
+    if (!COLOR_PATTERN.test(from) || typeof to !== 'string' || !COLOR_PATTERN.test(to)) {
+      errors.push(`${path}.recolor.${from}: expected hex colors such as "#000" or "#ffffff"`)
+    }
+  }
+}
+
+function validateOptionalStrings(fields: Fields, keys: string[], path: string, errors: string[]) {
+  for (const key of keys) {
+    if (fields[key] !== undefined && typeof fields[key] !== 'string') {
+      errors.push(`${path}.${key}: expected a string`)
+    }
+  }
+}
+
+export function formatManifestErrors(errors: string[]) {
+  return `Invalid icon pack manifest:\n${errors.map(error => `  - ${error}`).join('\n')}`
+}
+
+const {manifest, errors: manifestErrors} = validateManifest(manifestJSON)
+
+export {manifest, manifestErrors}
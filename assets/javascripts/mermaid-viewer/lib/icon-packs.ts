@@ -0,0 +1,78 @@
+import type {IconifyJSON} from '@iconify/types'
+import {getIconData} from '@iconify/utils'
+import type {IconManifest, IconPackManifest, IconPackTheme} from './icon-manifest'
+import iconRegistry from './icon-registry'
+
+class IconPackVersionError extends Error {
+  constructor(pack: IconPackManifest, bundled: string) {
+    super(
+      `Icon pack '${pack.prefix}' is pinned to ${pack.version} in manifest.json, but @iconify-json/${pack.collection} ${bundled} is bundled`,
+    )
+  }
+}
+
+// Attributes the recolor rules of a theme apply to
+const COLOR_ATTRIBUTE = /\b(fill|stroke|stop-color)="(#[0-9a-f]{3}|#[0-9a-f]{6})"/gi
+
+// Expands #abc to #aabbcc so either spelling matches
+const normalizeColor = (color: string) =>
+  (color.length === 4 ? color.replace(/^#(.)(.)(.)$/, '#$1$1$2$2$3$3') : color).toLowerCase()
+
+function recolorBody(body: string, recolor: Map<string, string>) {
+  const recolored = body.replace(COLOR_ATTRIBUTE, (match, attribute, color) => {
+    const replacement = recolor.get(normalizeColor(color))
+    return replacement ? `${attribute}="${replacement}"` : match
+  })
+
+  // Shapes without a fill are drawn black
+  const black = recolor.get('#000000')
+  return black && !/\bfill=/.test(body) ? `<g fill="${black}">${recolored}</g>` : recolored
+}
+
+/**
+ * Swaps in the icon variants for the active mermaid theme, and recolors every other icon, so
+ * dark logos stay legible on a dark background.
+ */
+function applyTheme(icons: IconifyJSON, theme?: IconPackTheme): IconifyJSON {
+  if (!theme) return icons
+
+  const recolor = new Map(Object.entries(theme.recolor).map(([from, to]) => [normalizeColor(from), to]))
+  const themed: IconifyJSON = {...icons, icons: {}}
+
+  for (const [name, icon] of Object.entries(icons.icons)) {
+    const variant = theme.icons[name] ? getIconData(icons, theme.icons[name]) : null
+
+    themed.icons[name] = variant ?? {...icon, body: recolor.size ? recolorBody(icon.body, recolor) : icon.body}
+  }
+
+  return themed
+}
+
+/**
+ * Loads an Iconify collection bundled with the viewer. Each collection is split into its own
+ * chunk and served alongside the viewer, so rendering never reaches out to the Iconify API.
+ */
+async function loadPack(pack: IconPackManifest, theme: string): Promise<IconifyJSON> {
+  const [{default: icons}, {version}] = await Promise.all([
+    import(`@iconify-json/${pack.collection}/icons.json`),
+    import(`@iconify-json/${pack.collection}/package.json`),
+  ])
+
+  if (version !== pack.version) {
+    throw new IconPackVersionError(pack, version)
+  }
+
+  return applyTheme({...icons, prefix: pack.prefix}, pack.themes[theme])
+}
+
+// Registers every pack listed in the manifest with mermaid, drawn for the theme of the diagram
+export function registerIconPacks({packs}: IconManifest) {
+  for (const pack of packs) {
+    iconRegistry.register(pack.prefix, theme => loadPack(pack, theme), {
+      name: pack.name,
+      version: pack.version,
+      license: pack.license,
+      author: pack.author,
+    })
+  }
+}
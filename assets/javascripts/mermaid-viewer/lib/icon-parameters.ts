@@ -0,0 +1,78 @@
+import {colorToString, stringToColor} from '@iconify/utils'
+
+const MIN_ICON_SIZE = 8
+// Mermaid sizes labels for lines 1.5em high, at its default 16px font a larger icon would be
+// clipped or overlap the next line
+const MAX_ICON_SIZE = 24
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/
+// Color types that can't smuggle anything but a color into the attribute
+const ALLOWED_COLOR_TYPES = ['rgb', 'hsl', 'lab', 'lch', 'current']
+
+export type IconParameters = {
+  // width and height in px
+  size?: number
+  color?: string
+  // clockwise rotation in degrees
+  rotate?: number
+}
+
+export class IconParameterError extends Error {
+  constructor(token: string, detail: string) {
+    super(`Invalid icon parameters in '${token}': ${detail}`)
+  }
+}
+
+/**
+ * Parses the `{size=24,color=#0db7ed,rotate=90}` parameters of an inline icon token.
+ * Throws an `IconParameterError` describing the first parameter that isn't valid.
+ */
+export function parseIconParameters(token: string, raw?: string): IconParameters {
+  const parameters: IconParameters = {}
+  if (!raw?.trim()) return parameters
+
+  // commas inside rgb(...) and friends don't separate parameters
+  for (const pair of raw.split(/,(?![^(]*\))/)) {
+    const [key, ...rest] = pair.split('=')
+    const name = key.trim()
+    const value = rest.join('=').trim()
+
+    if (!value) {
+      throw new IconParameterError(token, `'${pair.trim()}' should look like name=value`)
+    }
+
+    switch (name) {
+      case 'size': {
+        if (!NUMBER_PATTERN.test(value)) {
+          throw new IconParameterError(token, `size must be a number of pixels, got '${value}'`)
+        }
+        if (Number(value) > MAX_ICON_SIZE) {
+          throw new IconParameterError(
+            token,
+            `size can be at most ${MAX_ICON_SIZE}px, the height of a label line, got '${value}'`,
+          )
+        }
+        parameters.size = Math.max(Number(value), MIN_ICON_SIZE)
+        break
+      }
+      case 'color': {
+        const color = stringToColor(value)
+        if (!color || !ALLOWED_COLOR_TYPES.includes(color.type)) {
+          throw new IconParameterError(token, `color must be a CSS color such as #0db7ed or red, got '${value}'`)
+        }
+        parameters.color = colorToString(color)
+        break
+      }
+      case 'rotate': {
+        if (!NUMBER_PATTERN.test(value)) {
+          throw new IconParameterError(token, `rotate must be a number of degrees, got '${value}'`)
+        }
+        parameters.rotate = Number(value) % 360
+        break
+      }
+      default:
+        throw new IconParameterError(token, `unknown parameter '${name}', expected size, color or rotate`)
+    }
+  }
+
+  return parameters
+}
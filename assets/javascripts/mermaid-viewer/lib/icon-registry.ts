@@ -0,0 +1,135 @@
+import type {IconifyIcon, IconifyJSON} from '@iconify/types'
+import {getIconData} from '@iconify/utils'
+// eslint-disable-next-line import/namespace, import/no-deprecated, import/default, import/no-named-as-default, import/no-named-as-default-member
+import mermaid from 'mermaid'
+import {invariant} from '../../render/utils'
+
+// Loads the pack drawn for a mermaid theme
+export type IconPackLoader = (theme: string) => Promise<IconifyJSON>
+
+// A pack that could not be loaded, the diagrams draw without its icons
+export type IconPackFailure = {
+  prefix: string
+  error: string
+}
+
+// Credits for a pack, shown with diagrams that use it
+export type IconPackInfo = {
+  prefix: string
+  name: string
+  version?: string
+  license?: {title: string; spdx?: string; url?: string}
+  author?: {name: string; url?: string}
+}
+
+/**
+ * Keeps track of every Iconify icon pack known to the viewer and hands them to mermaid.
+ *
+ * Packs are registered with a loader so that large collections are only parsed when a
+ * diagram needs them. Mermaid and the viewer share the same loaded collection.
+ */
+class IconRegistry {
+  #loaders = new Map<string, IconPackLoader>()
+  #packs = new Map<string, Promise<IconifyJSON>>()
+  #info = new Map<string, IconPackInfo>()
+  #listeners = new Set<() => void>()
+  // bumped whenever a pack is registered, diagrams drawn before may show different icons now
+  version = 0
+  // mermaid theme of the page, packs are loaded for it unless a diagram asks for its own
+  theme = 'default'
+
+  get prefixes() {
+    return Array.from(this.#loaders.keys())
+  }
+
+  register(prefix: string, loader: IconPackLoader, info: Omit<IconPackInfo, 'prefix'> = {name: prefix}) {
+    this.#loaders.set(prefix, loader)
+    for (const key of this.#packs.keys()) {
+      if (key.endsWith(`:${prefix}`)) this.#packs.delete(key)
+    }
+    this.#info.set(prefix, {prefix, ...info})
+
+    mermaid.registerIconPacks([{name: prefix, loader: () => this.load(prefix)}])
+
+    this.version++
+    for (const listener of this.#listeners) listener()
+  }
+
+  onChange(listener: () => void) {
+    this.#listeners.add(listener)
+  }
+
+  info(prefix: string): IconPackInfo {
+    return this.#info.get(prefix) ?? {prefix, name: prefix}
+  }
+
+  load(prefix: string, theme = this.theme) {
+    const key = `${theme}:${prefix}`
+    const loaded = this.#packs.get(key)
+    if (loaded) return loaded
+
+    const loader = this.#loaders.get(prefix)
+    invariant(loader, `Icon pack '${prefix}' is not registered`)
+
+    const pack = loader(theme).catch((error: Error) => {
+      // don't cache the failure, a later render may try again
+      this.#packs.delete(key)
+      throw error
+    })
+    this.#packs.set(key, pack)
+
+    return pack
+  }
+
+  // Resolves to null when the pack isn't registered, failed to load or doesn't contain the icon
+  async getIcon(prefix: string, name: string, theme = this.theme): Promise<IconifyIcon | null> {
+    if (!this.#loaders.has(prefix)) return null
+
+    try {
+      return getIconData(await this.load(prefix, theme), name)
+    } catch {
+      return null
+    }
+  }
+
+  // Loads every pack for `theme`, each on its own so one broken pack doesn't keep the others
+  // from drawing. Resolves to the packs that failed.
+  async loadAll(theme = this.theme): Promise<IconPackFailure[]> {
+    const prefixes = this.prefixes
+    const results = await Promise.allSettled(prefixes.map(prefix => this.load(prefix, theme)))
+    const failures = results.flatMap((result, index) =>
+      result.status === 'rejected' ? [{prefix: prefixes[index], error: (result.reason as Error).message}] : [],
+    )
+    if (failures.length) window.debug('Icon packs that failed to load:', failures)
+
+    return failures
+  }
+
+  // Hands mermaid the packs loaded for `theme`. Mermaid keeps a single set of packs for every
+  // diagram, so this goes right before the diagram that needs them is rendered.
+  async useWithMermaid(theme = this.theme) {
+    const prefixes = this.prefixes
+    const results = await Promise.allSettled(prefixes.map(prefix => this.load(prefix, theme)))
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'fulfilled') mermaid.registerIconPacks([{name: prefixes[index], icons: result.value}])
+    }
+  }
+
+  // Every `prefix:name` id the registered packs can draw, including the aliases within each pack
+  async listIcons() {
+    const packs = await Promise.allSettled(
+      this.prefixes.map(async prefix => ({prefix, icons: await this.load(prefix)})),
+    )
+
+    return packs.flatMap(result => {
+      if (result.status === 'rejected') return []
+
+      const {prefix, icons} = result.value
+      return [...Object.keys(icons.icons), ...Object.keys(icons.aliases ?? {})].map(name => `${prefix}:${name}`)
+    })
+  }
+}
+
+const iconRegistry = new IconRegistry()
+
+export default iconRegistry
@@ -0,0 +1,254 @@
+import type {IconifyIcon} from '@iconify/types'
+import {iconToSVG, replaceIDs} from '@iconify/utils'
+import iconAliases from './icon-aliases'
+import type {IconReference} from './icon-aliases'
+import {parseIconParameters} from './icon-parameters'
+import type {IconParameters} from './icon-parameters'
+import iconRegistry from './icon-registry'
+import type RewrittenSource from './rewritten-source'
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+
+// Matches `icon:prefix:name` and `icon:alias` tokens that are not part of a longer word,
+// along with their optional `{size=24,color=red,rotate=90}` parameters
+export const ICON_TOKEN = /(?<![\w-])icon:((?:[a-z0-9]+(?:-[a-z0-9]+)*:)?[a-z0-9]+(?:[-_][a-z0-9]+)*)(?:\{([^{}]*)\})?/g
+
+// Every distinct icon in a diagram is swapped for a private use character before mermaid sees
+// the source, repeated once for every em the icon is wide. The glyphs keep the label
+// measurements close to the size of the icon, and mermaid passes them through its strict
+// label sanitization untouched.
+const MARKER_BASE = 0xe000
+const MARKER_LIMIT = 0xf8ff
+const MARKER_PATTERN = /([\ue000-\uf8ff])\1*/
+
+// Mermaid sizes labels for lines 1.5em high. `size` is checked against the default font, labels
+// set smaller still keep their icons within the line.
+const LINE_HEIGHT = 1.5
+
+// SVG <text> labels can't contain other elements, so the icon is drawn next to the text
+// and an em space holds its place in the label.
+const ICON_PLACEHOLDER = '\u2003'
+
+// Mermaid's default font stack, used when a label doesn't set its own
+const DEFAULT_FONT_FAMILY = '"trebuchet ms", verdana, arial, sans-serif'
+const DEFAULT_FONT_SIZE = 16
+
+// The size an icon is drawn at in a label set in `fontSize`
+const iconSize = ({size}: IconParameters, fontSize: number) => Math.min(size ?? fontSize, fontSize * LINE_HEIGHT)
+
+export type InlineIcon = {
+  // the token as written in the diagram source
+  token: string
+  // the canonical icon id once aliases are resolved
+  id: string
+  marker: string
+  parameters: IconParameters
+  data: IconifyIcon | null
+}
+
+/**
+ * Replaces every `icon:prefix:name` token in the diagram source with a marker character
+ * and loads the icon data for each of them, drawn for the mermaid `theme`. Aliases are resolved
+ * on the way.
+ */
+export async function extractInlineIcons(source: RewrittenSource, theme: string) {
+  const icons = new Map<string, InlineIcon & {reference: IconReference | null}>()
+  const aliases: Record<string, string> = {}
+
+  const replaced = source.replace(ICON_TOKEN, ([token, written, rawParameters]) => {
+    let icon = icons.get(token)
+    if (!icon) {
+      const code = MARKER_BASE + icons.size
+      // Out of markers, leave the remaining tokens as they are
+      if (code > MARKER_LIMIT) return token
+
+      const resolution = iconAliases.resolve(written)
+      const reference = resolution.status === 'resolved' ? resolution.icon : null
+      if (resolution.status === 'resolved' && resolution.aliased) {
+        aliases[written] = resolution.icon.id
+      }
+      if (resolution.status === 'ambiguous') {
+        window.debug(
+          `WARNING: Icon alias '${written}' is ambiguous, use one of ${resolution.candidates.join(', ')} instead`,
+        )
+      }
+
+      icon = {
+        token,
+        id: reference?.id ?? written,
+        reference,
+        marker: String.fromCharCode(code),
+        parameters: parseIconParameters(token, rawParameters),
+        data: null,
+      }
+      icons.set(token, icon)
+    }
+
+    // mermaid doesn't know the label font yet, its default is as good a guess as any
+    return icon.marker.repeat(Math.ceil(iconSize(icon.parameters, DEFAULT_FONT_SIZE) / DEFAULT_FONT_SIZE))
+  })
+
+  if (Object.keys(aliases).length) {
+    window.debug('Resolved icon aliases:', aliases)
+  }
+
+  await Promise.all(
+    Array.from(icons.values()).map(async icon => {
+      if (icon.reference) {
+        icon.data = await iconRegistry.getIcon(icon.reference.prefix, icon.reference.name, theme)
+      }
+    }),
+  )
+
+  return {source: replaced, icons: Array.from(icons.values())}
+}
+
+/**
+ * Swaps the markers left by `extractInlineIcons` in the rendered SVG for inline SVG icons.
+ * Icons that could not be resolved are put back as the token that was written.
+ */
+export function injectInlineIcons(svg: string, icons: InlineIcon[]) {
+  if (!icons.length) return svg
+
+  const byMarker = new Map(icons.map(icon => [icon.marker, icon]))
+  const container = document.createElement('template')
+  container.innerHTML = svg
+
+  const walker = document.createTreeWalker(container.content, NodeFilter.SHOW_TEXT)
+  const textNodes: Text[] = []
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    if (MARKER_PATTERN.test(node.data)) textNodes.push(node)
+  }
+
+  for (const node of textNodes) {
+    if (node.parentElement?.namespaceURI === SVG_NAMESPACE) {
+      injectIntoSVGText(node, byMarker)
+    } else {
+      injectIntoHTMLLabel(node, byMarker)
+    }
+  }
+
+  return container.innerHTML
+}
+
+function injectIntoHTMLLabel(node: Text, byMarker: Map<string, InlineIcon>) {
+  const fragment = document.createDocumentFragment()
+
+  for (const part of node.data.split(MARKER_PATTERN)) {
+    const icon = byMarker.get(part)
+    if (!icon) {
+      if (part) fragment.append(part)
+    } else if (icon.data) {
+      const size = icon.parameters.size ? iconSize(icon.parameters, DEFAULT_FONT_SIZE) : undefined
+      const element = createIconElement(icon, icon.data, size)
+      // sit the icon on the text baseline the same way Iconify does for inline icons,
+      // icons with their own size are centred on the line instead
+      element.setAttribute('style', `vertical-align: ${icon.parameters.size ? 'middle' : '-0.125em'};`)
+      fragment.append(element)
+    } else {
+      fragment.append(icon.token)
+    }
+  }
+
+  node.replaceWith(fragment)
+}
+
+function injectIntoSVGText(node: Text, byMarker: Map<string, InlineIcon>) {
+  const text = node.parentElement?.closest('text')
+  if (!text) return
+
+  const {fontSize, fontFamily, anchor} = textStyle(text)
+  const parts = node.data.split(MARKER_PATTERN)
+  const label = parts.map(part => {
+    const icon = byMarker.get(part)
+    if (!icon?.data) return unresolvedText(part, byMarker)
+    return ICON_PLACEHOLDER.repeat(Math.ceil(iconSize(icon.parameters, fontSize) / fontSize))
+  })
+  node.data = label.join('')
+
+  const font = `${fontSize}px ${fontFamily}`
+  const lineWidth = measureText(node.data, font)
+  const lineElement = node.parentElement ?? text
+  const x = Number(lineElement.getAttribute('x') ?? text.getAttribute('x') ?? 0)
+  const y = Number(lineElement.getAttribute('y') ?? text.getAttribute('y') ?? 0)
+
+  let lineStart = x
+  if (anchor === 'middle') lineStart = x - lineWidth / 2
+  if (anchor === 'end') lineStart = x - lineWidth
+
+  // Mermaid centres most SVG labels on their y coordinate, otherwise y is the baseline
+  const centred = text.getAttribute('dominant-baseline') === 'central' || text.getAttribute('dy') === '0.35em'
+  const top = centred ? y - fontSize / 2 : y - fontSize * 0.8
+
+  let offset = 0
+  const icons = document.createDocumentFragment()
+  for (const [index, part] of parts.entries()) {
+    const icon = byMarker.get(part)
+    if (icon?.data) {
+      const size = iconSize(icon.parameters, fontSize)
+      const element = createIconElement(icon, icon.data, size)
+      element.setAttribute('x', String(lineStart + offset))
+      element.setAttribute('y', String(top - (size - fontSize) / 2))
+      icons.append(element)
+    }
+    offset += measureText(label[index], font)
+  }
+
+  text.after(icons)
+}
+
+function unresolvedText(part: string, byMarker: Map<string, InlineIcon>) {
+  const icon = byMarker.get(part)
+  return icon ? icon.token : part
+}
+
+// Icons without a size follow the font size of the label
+function createIconElement(icon: InlineIcon, data: IconifyIcon, size?: number) {
+  const {color, rotate} = icon.parameters
+  const {attributes, body, viewBox} = iconToSVG(data, {height: size ? String(size) : '1em'})
+  const element = document.createElementNS(SVG_NAMESPACE, 'svg')
+
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value)
+  }
+  element.setAttribute('class', 'mermaid-inline-icon')
+  element.setAttribute('data-icon', icon.id)
+  element.setAttribute('aria-label', icon.id)
+
+  // Monochrome icons draw with currentColor or the inherited fill, brand colors are left alone
+  if (color) {
+    element.setAttribute('color', color)
+    element.setAttribute('fill', color)
+  }
+
+  // Gradients and masks in icon bodies use ids, keep them unique across the diagram
+  let content = replaceIDs(body)
+  if (rotate) {
+    const [left, top, width, height] = viewBox
+    content = `<g transform="rotate(${rotate} ${left + width / 2} ${top + height / 2})">${content}</g>`
+  }
+  element.innerHTML = content
+
+  return element
+}
+
+function textStyle(text: SVGTextElement) {
+  const style = text.style
+  const fontSize = parseFloat(style.fontSize || text.getAttribute('font-size') || '') || DEFAULT_FONT_SIZE
+  const fontFamily = style.fontFamily || text.getAttribute('font-family') || DEFAULT_FONT_FAMILY
+  const anchor = style.textAnchor || text.getAttribute('text-anchor') || 'start'
+
+  return {fontSize, fontFamily, anchor}
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+// The rendered SVG hasn't been laid out yet, so label widths are measured with a canvas
+function measureText(value: string, font: string) {
+  measureContext = measureContext ?? document.createElement('canvas').getContext('2d')
+  if (!measureContext) return 0
+
+  measureContext.font = font
+  return measureContext.measureText(value).width
+}
@@ -1,23 +1,32 @@
 import {decodeHTML} from '../../render/utils'
 import MermaidRenderer from './mermaid-renderer'
+import MermaidRendererGroup from './mermaid-renderer-group'
 import {MermaidViewer} from './mermaid-viewer'
+import type {Renderable} from './mermaid-viewer'
 
 class MermaidMarkdownViewer<T extends ContainerResizeEvent | MarkdownResponseEvent> extends MermaidViewer<T> {
   initialize() {
-    this.iframeMessenger.set(this.loadEvent)
+    if (this.loadEvent) this.iframeMessenger.set(this.loadEvent)
   }
 
-  onLoad(event: MarkdownResponseEvent, renderer?: MermaidRenderer) {
-    // the data gets HTML escaped when added to the content node, so we
-    // have to unescape it here.
-    const decoded = decodeHTML(event.detail.data)
+  onLoad(event: MarkdownResponseEvent, renderer?: Renderable) {
+    // A page with several diagrams can send all of them to a single viewer
+    const data: string | string[] = event.detail.data
     const width = event.detail.width
 
-    if (!(renderer instanceof MermaidRenderer)) {
-      renderer = new MermaidRenderer({data: decoded, el: this.el, width})
+    if (!renderer) {
+      // the data gets HTML escaped when added to the content node, so we
+      // have to unescape it here.
+      renderer = Array.isArray(data)
+        ? new MermaidRendererGroup({data: data.map(decodeHTML), el: this.el, width})
+        : new MermaidRenderer({data: decodeHTML(data), el: this.el, width})
       window.addEventListener('resize', this.lazyRender(renderer))
+    } else if (renderer instanceof MermaidRendererGroup) {
+      renderer.width = width
+      renderer.data = [data].flat().map(decodeHTML)
     } else {
       renderer.width = width
+      renderer.data = decodeHTML([data].flat()[0])
     }
 
     return renderer
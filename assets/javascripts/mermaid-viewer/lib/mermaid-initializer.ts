@@ -1,7 +1,23 @@
 // eslint-disable-next-line import/namespace, import/no-deprecated, import/default, import/no-named-as-default, import/no-named-as-default-member
 import mermaid from 'mermaid'
+import {manifest} from './icon-manifest'
+import {registerIconPacks} from './icon-packs'
+import iconRegistry from './icon-registry'
 
-const theme = document.querySelector('html')?.getAttribute('data-color-mode')
+const colorMode = document.querySelector('html')?.getAttribute('data-color-mode')
+
+export const theme = colorMode === 'dark' ? 'dark' : 'default'
+
+// A diagram can set its own theme, with `%%{init: {"theme": "forest"}}%%` or in the front matter
+const INIT_DIRECTIVE = /%%\{\s*init\s*:([^]*?)\}%%/
+const FRONTMATTER = /^-{3}\s*[\n\r]([^]*?)[\n\r]-{3}\s*[\n\r]/
+const THEME_SETTING = /["']?\btheme["']?\s*:\s*["']?([\w-]+)/
+
+// The theme a diagram is drawn with, the page's unless the diagram picks another one
+export const diagramTheme = (source: string) => {
+  const config = source.match(FRONTMATTER)?.[1] ?? source.match(INIT_DIRECTIVE)?.[1] ?? ''
+  return config.match(THEME_SETTING)?.[1] ?? theme
+}
 
 mermaid.initialize({
   startOnLoad: false,
@@ -21,7 +37,11 @@ mermaid.initialize({
   sequence: {
     diagramMarginY: 40,
   },
-  theme: theme === 'dark' ? 'dark' : 'default',
+  theme,
 })
 
+// make the Iconify packs listed in manifest.json available to `architecture-beta` diagrams and `icon:` shapes
+iconRegistry.theme = theme
+registerIconPacks(manifest)
+
 export default mermaid.render
@@ -0,0 +1,181 @@
+import MermaidRenderer, {fitHeightToWidth} from './mermaid-renderer'
+import type {RenderOptions} from './mermaid-renderer'
+import type {UnresolvedIcon} from './icon-diagnostics'
+import type {IconPackFailure, IconPackInfo} from './icon-registry'
+import {DiagramTooLargeError, createTooLargePlaceholder} from './render-limits'
+import type {RenderLimit} from './render-limits'
+import {DiagramSyntaxError} from './syntax-error'
+import type {SyntaxErrorDetails} from './syntax-error'
+
+// Same minimum as a single diagram, to leave room for the view/pan controls
+const MIN_HEIGHT = 180
+
+type GroupConfig = {
+  data: string[]
+  el: HTMLElement
+  width: number
+}
+
+export type DiagramError = {
+  // position of the diagram in the group
+  index: number
+  error: string
+  syntax?: SyntaxErrorDetails
+}
+
+export type OversizedDiagram = {
+  // position of the diagram in the group
+  index: number
+  error: string
+  limit: RenderLimit
+  value: number
+  max: number
+}
+
+// Every diagram of the group failed, each section already shows why
+export class DiagramGroupError extends Error {
+  errors: DiagramError[]
+
+  constructor(errors: DiagramError[]) {
+    super(errors.map(({index, error}) => `Diagram ${index + 1}: ${error}`).join('\n'))
+    this.errors = errors
+  }
+}
+
+/**
+ * Renders several diagrams, one below the other, in a single viewer. Each diagram gets its own
+ * section to pan and zoom in, and its own render id so the ids mermaid gives markers and
+ * gradients don't collide between diagrams.
+ *
+ * A diagram that fails to render shows its error in place and leaves the others alone, the
+ * group only fails when none of them rendered. A diagram over the render limits gets a
+ * placeholder in place, the same as a single one.
+ */
+class MermaidRendererGroup {
+  el: HTMLElement
+  renderers: MermaidRenderer[]
+  // diagrams that failed to render in the last pass
+  errors: DiagramError[] = []
+  // diagrams held back in the last pass for going over the render limits
+  tooLarge: OversizedDiagram[] = []
+  #width: number
+
+  constructor({data, el, width}: GroupConfig) {
+    this.el = el
+    this.#width = width
+    this.renderers = this.#createRenderers(data)
+  }
+
+  get data() {
+    return this.renderers.map(renderer => renderer.data)
+  }
+
+  // Sections are kept, with their viewport, while the number of diagrams stays the same
+  set data(data: string[]) {
+    if (data.length === this.renderers.length) {
+      for (const [index, renderer] of this.renderers.entries()) renderer.data = data[index]
+    } else {
+      this.renderers = this.#createRenderers(data)
+    }
+  }
+
+  get width() {
+    return this.#width
+  }
+
+  set width(width: number) {
+    this.#width = width
+    for (const renderer of this.renderers) renderer.width = width
+  }
+
+  get unresolvedIcons(): UnresolvedIcon[] {
+    return this.renderers.flatMap(renderer => renderer.unresolvedIcons)
+  }
+
+  get iconPackErrors(): IconPackFailure[] {
+    const failures = new Map<string, IconPackFailure>()
+    for (const failure of this.renderers.flatMap(renderer => renderer.iconPackErrors)) {
+      failures.set(failure.prefix, failure)
+    }
+    return Array.from(failures.values())
+  }
+
+  get usedIconPacks(): IconPackInfo[] {
+    const packs = new Map<string, IconPackInfo>()
+    for (const pack of this.renderers.flatMap(renderer => renderer.usedIconPacks)) {
+      packs.set(pack.prefix, pack)
+    }
+    return Array.from(packs.values())
+  }
+
+  async render(options: RenderOptions = {}) {
+    // kept aside until the whole group is done, a cancelled pass leaves the last ones in place
+    const errors: DiagramError[] = []
+    const tooLarge: OversizedDiagram[] = []
+
+    // mermaid renders through a shared template, one diagram at a time
+    for (const [index, renderer] of this.renderers.entries()) {
+      try {
+        await renderer.render(options)
+        fitHeightToWidth(renderer.el)
+      } catch (error) {
+        // a cancelled render stops the whole group, the diagrams left are for the newer one
+        options.signal?.throwIfAborted()
+        if (error instanceof DiagramTooLargeError) {
+          const {message, limit, value, max} = error
+          tooLarge.push({index, error: message, limit, value, max})
+          renderer.el.replaceChildren(createTooLargePlaceholder(error))
+          continue
+        }
+        errors.push({
+          index,
+          error: (error as Error).message,
+          ...(error instanceof DiagramSyntaxError && {syntax: error.details}),
+        })
+        this.#showError(renderer, (error as Error).message)
+      }
+    }
+
+    this.errors = errors
+    this.tooLarge = tooLarge
+    if (errors.length === this.renderers.length) {
+      throw new DiagramGroupError(errors)
+    }
+
+    const {height, x, y} = this.el.getBoundingClientRect()
+    return Math.max(height + x + y, MIN_HEIGHT)
+  }
+
+  #createRenderers(data: string[]) {
+    const renderers = data.map((source, index) => {
+      const section = document.createElement('div')
+      section.className = 'mermaid-diagram'
+      section.tabIndex = 0
+      section.setAttribute('role', 'group')
+      section.ariaLabel = `Diagram ${index + 1} of ${data.length}`
+      // keeps a zoomed in diagram from covering the ones next to it
+      section.style.overflow = 'hidden'
+
+      return new MermaidRenderer({data: source, el: section, width: this.#width, id: `diagram-${index}`})
+    })
+
+    this.el.replaceChildren(...renderers.map(renderer => renderer.el))
+    return renderers
+  }
+
+  #showError({el, rendered}: MermaidRenderer, message: string) {
+    const error = document.createElement('p')
+    error.className = 'flash flash-error mermaid-diagram-error'
+    error.textContent = message
+
+    // a diagram that rendered before stays up, with the error above it, until the source is fixed
+    if (rendered) {
+      el.querySelector(':scope > .mermaid-diagram-error')?.remove()
+      el.prepend(error)
+    } else {
+      el.replaceChildren(error)
+    }
+  }
+}
+
+export default MermaidRendererGroup
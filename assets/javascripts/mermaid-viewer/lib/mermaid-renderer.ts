@@ -1,9 +1,21 @@
 import DOMPurify from 'dompurify'
-import render from './mermaid-initializer'
+import render, {diagramTheme} from './mermaid-initializer'
 import {ALLOWED_TAGS} from './constants'
-import {assertSVGElement, invariant, openLinksInParent} from '../../render/utils'
+import {createOutline} from './diagram-outline'
+import {createAttribution} from './icon-attribution'
+import iconAliases from './icon-aliases'
+import {annotateIconNodes, inspectIcons} from './icon-diagnostics'
+import type {UnresolvedIcon} from './icon-diagnostics'
+import iconRegistry from './icon-registry'
+import type {IconPackFailure, IconPackInfo} from './icon-registry'
+import {extractInlineIcons, injectInlineIcons} from './inline-icons'
+import renderCache from './render-cache'
+import RewrittenSource from './rewritten-source'
+import {checkRenderLimits, readRenderLimits, withRenderTimeout} from './render-limits'
+import {DiagramSyntaxError} from './syntax-error'
+import {assertSVGElement, hashString, invariant, openLinksInParent} from '../../render/utils'
 
-const reSanitize = (content: string) =>
+export const reSanitize = (content: string) =>
   DOMPurify.sanitize(content, {
     USE_PROFILES: {
       svg: true,
@@ -15,33 +27,182 @@ const reSanitize = (content: string) =>
     ADD_ATTR: ['transform-origin', 'dominant-baseline'],
   })
 
+// Pages other than the render service don't come with a template to render into. Mermaid
+// measures the diagram while rendering it, so it has to be laid out, just not seen.
+const createTemplate = () => {
+  const template = document.createElement('div')
+  template.id = 'mermaid-view-template'
+  template.setAttribute('aria-hidden', 'true')
+  Object.assign(template.style, {position: 'absolute', left: '-10000px', top: '0', visibility: 'hidden'})
+  document.body.appendChild(template)
+  return template
+}
+
+/**
+ * Mermaid keeps the height of the <svg> when it scales the width down to the container, which
+ * leaves a gap below the diagram. The render iframe hides it by reporting a smaller height,
+ * diagrams laid out on a page need the <svg> itself to shrink.
+ */
+export const fitHeightToWidth = (el: HTMLElement) => {
+  const svg = el.querySelector<SVGSVGElement>('.mermaid > svg')
+  const viewBox = svg?.viewBox.baseVal
+  if (!svg || !viewBox?.width) return
+
+  const {width} = svg.getBoundingClientRect()
+  svg.setAttribute('height', String((width * viewBox.height) / viewBox.width))
+}
+
+// Widths within a bucket share cached renders, the height differs by a pixel or two at most
+const WIDTH_BUCKET = 8
+
+// Diagrams take turns across every viewer on the page. Mermaid renders one at a time anyway,
+// and the icon packs it draws from are set for the diagram whose turn it is.
+let lastTurn: Promise<void> = Promise.resolve()
+
+// Resolves once the diagrams that asked before are done, to the function that ends this turn
+const waitForTurn = async () => {
+  const previous = lastTurn
+  let endTurn = (): void => undefined
+  lastTurn = new Promise(resolve => {
+    endTurn = resolve
+  })
+  await previous
+  return endTurn
+}
+
+export type RenderOptions = {
+  // neither read nor write the render cache when off
+  cache?: boolean
+  // a render aborted before it's done leaves the view alone and rejects with the abort reason
+  signal?: AbortSignal
+}
+
 type RendererConfig = {
   data: string
   el: HTMLElement
   width: number
+  // id of the rendered <svg>, mermaid also prefixes the ids inside it with this
+  id?: string
 }
 
 class MermaidRenderer {
-  data: string
   el: HTMLElement
   width: number
+  id: string
+  // icons referenced by the last render that could not be drawn
+  unresolvedIcons: UnresolvedIcon[] = []
+  // icon packs the last render drew from
+  usedIconPacks: IconPackInfo[] = []
+  // icon packs that failed to load for the last render, their icons are left blank
+  iconPackErrors: IconPackFailure[] = []
+  // whether a diagram is on screen, a failed render leaves the last one in place
+  rendered = false
+  limits = readRenderLimits()
+  // set once the user chose to render a diagram that goes over the limits
+  ignoreLimits = false
+  #data: string
 
-  constructor({data = '', el, width}: RendererConfig) {
-    this.data = data
+  constructor({data = '', el, width, id = 'diagram'}: RendererConfig) {
+    this.#data = data
     this.el = el
     this.width = width
+    this.id = id
   }
 
-  async render() {
+  get data() {
+    return this.#data
+  }
+
+  // The choice to render anyway was made for the diagram as it was, an edit checks the limits again
+  set data(data: string) {
+    if (data !== this.#data) this.ignoreLimits = false
+    this.#data = data
+  }
+
+  // Renders from the cache when this diagram was rendered at about this width before. The
+  // results of a render are only kept once it's certain it wasn't superseded.
+  async render({cache = true, signal}: RenderOptions = {}) {
+    // Load the icon packs up front so mermaid draws the icons inline in the SVG string,
+    // where they go through the same sanitization as the rest of the diagram.
+    // icons are drawn to suit the diagram's theme, not necessarily the page's
+    const iconPackErrors = await iconRegistry.loadAll(diagramTheme(this.data))
+
+    // only now, a pack that just loaded changes the key
+    const key = this.#cacheKey()
+    const cached = cache ? renderCache.get(key) : undefined
+    if (cached) {
+      signal?.throwIfAborted()
+      this.el.replaceChildren(...cached.nodes.map(node => node.cloneNode(true)))
+      this.iconPackErrors = iconPackErrors
+      this.unresolvedIcons = cached.unresolvedIcons
+      this.usedIconPacks = cached.usedIconPacks
+      this.rendered = true
+      return cached.height
+    }
+
+    if (!this.ignoreLimits) checkRenderLimits(this.data, this.limits)
+    const height = await this.#render(signal)
+    this.iconPackErrors = iconPackErrors
+    // a render missing the icons of a broken pack isn't kept, a later one may load it
+    if (cache && !iconPackErrors.length) {
+      renderCache.set(key, {
+        nodes: Array.from(this.el.childNodes, node => node.cloneNode(true)),
+        height,
+        unresolvedIcons: this.unresolvedIcons,
+        usedIconPacks: this.usedIconPacks,
+      })
+    }
+    return height
+  }
+
+  #cacheKey() {
+    const packs = iconRegistry.prefixes.map(prefix => `${prefix}@${iconRegistry.info(prefix).version ?? ''}`)
+    // the id goes in too, mermaid prefixes the ids inside the <svg> with it
+    return hashString(
+      [
+        this.id,
+        this.data,
+        Math.round(this.width / WIDTH_BUCKET),
+        diagramTheme(this.data),
+        iconRegistry.version,
+        ...packs,
+      ].join('\n'),
+    )
+  }
+
+  async #render(signal?: AbortSignal) {
     // We must set a minimum height to allow space for the view/pan controls
     const MIN_HEIGHT = 180
 
     // create a template element to safely render the diagram before sanitizing and appending it to the DOM
-    const template = document.getElementById('mermaid-view-template')
-    if (!template) return
+    const template = document.getElementById('mermaid-view-template') ?? createTemplate()
 
-    const {svg} = await render('diagram', this.data, template)
-    const sanitized = reSanitize(svg)
+    // `icon:prefix:name` tokens in labels are swapped for markers before mermaid parses the
+    // diagram and replaced with the icons afterwards, so they are sanitized like everything else.
+    // Aliases in mermaid's own icon references are swapped for the icon ids mermaid knows.
+    const theme = diagramTheme(this.data)
+    const written = new RewrittenSource(this.data)
+    const {source, icons} = await extractInlineIcons(iconAliases.applyToMermaidReferences(written), theme)
+    const endTurn = await waitForTurn()
+    let rendering: Promise<{svg: string}>
+    try {
+      // laying out the diagram is the slow part, skip it when the render is already superseded
+      signal?.throwIfAborted()
+      await iconRegistry.useWithMermaid(theme)
+      rendering = render(this.id, source.text, template).catch(error => {
+        throw DiagramSyntaxError.from(error, source)
+      })
+    } catch (error) {
+      endTurn()
+      throw error
+    }
+    // a render that timed out keeps the turn until mermaid is done with it
+    rendering.then(endTurn, endTurn)
+    // timed from here, waiting for the diagrams before it doesn't count
+    const {svg} = await (this.ignoreLimits ? rendering : withRenderTimeout(rendering, this.limits.timeout))
+    const sanitized = reSanitize(injectInlineIcons(svg, icons))
+    const {unresolved, usedPrefixes} = await inspectIcons(this.data)
+    const usedIconPacks = usedPrefixes.map(prefix => iconRegistry.info(prefix))
     // Many types of charts are generated with ridiculously huge margins.
     // This helps to mitigate that.
     const sanitizedSVG = sanitized.querySelector('svg')
@@ -57,12 +218,21 @@ class MermaidRenderer {
 
     sanitizedSVG.setAttribute('preserveAspectRatio', 'xMinYMin')
     openLinksInParent(sanitizedSVG)
+    annotateIconNodes(sanitizedSVG, this.data)
 
     const mermaidNode = document.createElement('div')
     mermaidNode.classList.add('mermaid')
     mermaidNode.appendChild(sanitized)
 
-    this.el.replaceChildren(mermaidNode)
+    signal?.throwIfAborted()
+    this.el.replaceChildren(mermaidNode, createOutline(sanitizedSVG))
+    this.unresolvedIcons = unresolved
+    this.usedIconPacks = usedIconPacks
+    this.rendered = true
+
+    // Credits go inside the view so they are part of the height reported to the embedding page
+    const attribution = createAttribution(usedIconPacks)
+    if (attribution) this.el.appendChild(attribution)
 
     const elBBox = this.el.getBoundingClientRect()
     // Make sure we get the padding / margin to avoid weird scroll bar
@@ -3,45 +3,151 @@ import {MESSAGE_RESPONSE_TYPES, RENDER_FORMATS, STATUS_TYPES} from '../../render
 import Status from '../../render/status'
 import {assertHTMLElement, invariant, getGitHubDocsHostname} from '../../render/utils'
 import type MermaidRenderer from './mermaid-renderer'
+import type {RenderOptions} from './mermaid-renderer'
+import MermaidRendererGroup, {DiagramGroupError} from './mermaid-renderer-group'
+import {loadCustomIcons} from './custom-icons'
+import DiagramSearch from './diagram-search'
+import {EXPORT_SCALES, download, exportPNG, exportSVG, toDataURL} from './diagram-export'
+import type {DiagramExport} from './diagram-export'
+import Fullscreen from './fullscreen'
+import {formatUnresolvedIcons} from './icon-diagnostics'
+import {formatManifestErrors, manifestErrors} from './icon-manifest'
+import Minimap from './minimap'
+import {DiagramTooLargeError, createTooLargePlaceholder} from './render-limits'
+import {DiagramSyntaxError} from './syntax-error'
+import PanZoom from './pan-zoom'
+import type {Transform} from './pan-zoom'
+import ViewportStore from './viewport-store'
 import octicons from '@primer/octicons'
 
+// Quiet time after the last edit before the preview is rendered again
+const LIVE_RENDER_DELAY = 300
+
 const DOCS_LINK_PATH =
   '/get-started/writing-on-github/working-with-advanced-formatting/creating-diagrams#creating-mermaid-diagrams'
 
 export type MermaidEventTypes = {onLoadEvent: MESSAGE_RESPONSE_TYPES; loadEvent: STATUS_TYPES}
 
+// Viewers rendering straight on a page, rather than in the render iframe, don't take part in
+// the iframe events or talk to a parent frame. They bring their own root node, keep their
+// controls in `container` and tell themselves apart from the other diagrams by `identity`.
+export type MermaidViewerOptions = Partial<MermaidEventTypes> & {
+  el?: HTMLElement
+  container?: HTMLElement
+  identity?: string
+}
+
+// A single diagram, or several of them rendered one below the other
+export type Renderable = MermaidRenderer | MermaidRendererGroup
+
+// Everything that holds the viewport of one diagram
+type Pane = {panZoom: PanZoom; viewport: ViewportStore}
+
 export abstract class MermaidViewer<CustomEventType extends ContainerResizeEvent | MarkdownResponseEvent> {
   el: HTMLElement
   iframeMessenger: Status
-  onLoadEvent: MESSAGE_RESPONSE_TYPES
-  loadEvent: STATUS_TYPES
+  onLoadEvent?: MESSAGE_RESPONSE_TYPES
+  loadEvent?: STATUS_TYPES
+  // holds the control panel and overlays
+  container: HTMLElement
+  // settles once the repository's custom icons are registered, or failed to load
+  customIcons: Promise<void>
+  // pan and zoom of the diagram the controls act on, the last one the user interacted with
+  // when there are several
+  panZoom: PanZoom
+  fullscreen: Fullscreen
+  minimap: Minimap
+  search: DiagramSearch
+  viewport: ViewportStore
+  #panes = new Map<HTMLElement, Pane>()
+  #announcer = document.createElement('div')
+  #announcedZoom = 1
+  // shown over the last diagram that rendered when the source stopped parsing
+  #errorBanner = document.createElement('p')
+  // tells the user why a download didn't start, when there's no embedding page to tell
+  #exportError = document.createElement('p')
+  // whether a diagram made it on screen, from then on errors no longer replace it
+  protected rendered = false
+  // aborts the render in flight when a newer one starts
+  #renderController: AbortController | null = null
+  // what the latest render was for
+  #renderer: Renderable | null = null
+  // the latest edit, applied to the renderer once the user stops typing so no other render
+  // picks up a half typed source in the meantime
+  #pendingEvent: CustomEventType | null = null
 
-  constructor({onLoadEvent, loadEvent}: MermaidEventTypes) {
-    const node = document.querySelector('.mermaid-view')
+  constructor({onLoadEvent, loadEvent, el, container = document.body, identity}: MermaidViewerOptions) {
+    const node = el ?? document.querySelector('.mermaid-view')
 
     invariant(assertHTMLElement(node), `Mermaid render root node does not exist. Got ${document.body.innerHTML}`)
 
     this.el = node
+    this.container = container
     this.iframeMessenger = new Status(RENDER_FORMATS.mermaid, {
       allowLinks: true,
+      linkRoot: this.el,
+      standalone: Boolean(el),
+      identity,
     })
 
+    // the packs the manifest describes correctly still draw, the diagram renders after this
+    if (manifestErrors.length) {
+      this.iframeMessenger.set(STATUS_TYPES.error, {error: formatManifestErrors(manifestErrors)})
+      window.debug(manifestErrors)
+    }
+
+    this.customIcons = loadCustomIcons(this.iframeMessenger)
     this.loadEvent = loadEvent
     this.onLoadEvent = onLoadEvent
 
-    let renderer: MermaidRenderer
-    document.addEventListener(this.onLoadEvent, ((event: CustomEventType) => {
-      renderer = this.onLoad(event, renderer)
-      this.onAfterLoad(renderer, true)
-    }) as EventListener)
-    document.addEventListener(MESSAGE_RESPONSE_TYPES.readyAck, (() => {
-      this.onAfterLoad(renderer, false)
-    }) as EventListener)
+    let renderer: Renderable
+    if (this.onLoadEvent) {
+      document.addEventListener(this.onLoadEvent, ((event: CustomEventType) => {
+        // later events, like the editor preview sends while typing, update the diagram in place
+        if (this.rendered) {
+          this.#pendingEvent = event
+          this.liveRender(renderer)
+        } else {
+          renderer = this.onLoad(event, renderer)
+          this.onAfterLoad(renderer, true)
+        }
+      }) as EventListener)
+      document.addEventListener(MESSAGE_RESPONSE_TYPES.readyAck, (() => {
+        this.onAfterLoad(renderer, false)
+      }) as EventListener)
+    }
+
+    this.panZoom = new PanZoom(this.el)
+    this.viewport = new ViewportStore(this.iframeMessenger.identity)
+    this.fullscreen = new Fullscreen(this.panZoom, this.iframeMessenger, container)
+    this.minimap = new Minimap(this.panZoom, container)
+    this.search = new DiagramSearch(this.panZoom)
+    this.#addPane(this.el, {panZoom: this.panZoom, viewport: this.viewport})
+
+    document.addEventListener(MESSAGE_RESPONSE_TYPES.viewportReset, () => {
+      for (const {panZoom, viewport} of this.#panes.values()) {
+        viewport.clear()
+        panZoom.reset()
+      }
+    })
+    // the controls follow the diagram the user last clicked into or focused
+    const activate = (event: Event) => {
+      const section = (event.target as Element).closest<HTMLElement>('.mermaid-diagram')
+      if (section) this.#activate(section)
+    }
+    this.el.addEventListener('pointerdown', activate, true)
+    this.el.addEventListener('focusin', activate)
+    this.el.addEventListener('click', this.#renderAnyway)
+
+    this.#errorBanner.className = 'flash flash-error mermaid-live-error'
+    this.#errorBanner.setAttribute('role', 'alert')
+    this.#exportError.className = 'flash flash-error mermaid-export-error'
+    this.#exportError.setAttribute('role', 'alert')
 
     this.#panAndZoom()
   }
 
-  lazyRender = (renderer: MermaidRenderer) =>
+  lazyRender = (renderer: Renderable) =>
     debounce(async () => {
       const newWidth = this.el.getBoundingClientRect().width
 
@@ -51,19 +157,43 @@ export abstract class MermaidViewer<CustomEventType extends ContainerResizeEvent
       }
 
       renderer.width = newWidth
-      const newHeight = await renderer.render()
-      this.iframeMessenger.set(STATUS_TYPES.resize, {
-        height: newHeight,
-      })
+      try {
+        const newHeight = await this.#renderLatest(renderer)
+        if (newHeight === null) return
+
+        this.onRendered(renderer)
+        this.fullscreen.refit()
+        this.#reportHeight(renderer, newHeight)
+      } catch (error) {
+        // a live edit can leave a source that doesn't parse behind the last good diagram
+        this.reportError(error as Error)
+      }
     }, 200)
 
+  liveRender = debounce(async (renderer: Renderable) => {
+    try {
+      if (this.#pendingEvent) renderer = this.onLoad(this.#pendingEvent, renderer)
+      this.#pendingEvent = null
+      await this.customIcons
+      const height = await this.#renderLatest(renderer)
+      if (height === null) return
+
+      this.onRendered(renderer)
+      this.fullscreen.refit()
+      // the ready message comes with the warnings already
+      if (!this.#reportHeight(renderer, height)) this.#reportWarnings(renderer)
+    } catch (error) {
+      this.reportError(error as Error)
+    }
+  }, LIVE_RENDER_DELAY)
+
   protected abstract initialize(): void
   protected abstract onLoad(
     event: ContainerResizeEvent | MarkdownResponseEvent,
-    renderer?: MermaidRenderer,
-  ): MermaidRenderer
+    renderer?: Renderable,
+  ): Renderable
 
-  private async onAfterLoad(renderer: MermaidRenderer, firstLoad = true) {
+  protected async onAfterLoad(renderer: Renderable, firstLoad = true) {
     try {
       // On initial load, the iframe is not the correct height. We need to
       // render the diagram to calculate the correct height, have the
@@ -78,85 +208,412 @@ export abstract class MermaidViewer<CustomEventType extends ContainerResizeEvent
       // container to be visible in order to calculate the correct positions
       // and dimensions of elements in the diagram.
       // See https://github.com/github/viewscreen/issues/471 for more details.
-      const diagramHeight = await renderer.render()
+      await this.customIcons
+      // the frame doesn't have its final size before the ack, that render isn't worth keeping,
+      // and the ack render lays the diagram out again rather than replaying the first one
+      const diagramHeight = await this.#renderLatest(renderer, {cache: !firstLoad})
+      if (diagramHeight === null) return
 
-      if (firstLoad) {
-        this.iframeMessenger.set(STATUS_TYPES.ready, {
-          height: diagramHeight,
-          ack: true,
-        })
-      }
+      this.onRendered(renderer)
+      if (firstLoad) this.#reportHeight(renderer, diagramHeight)
     } catch (error) {
       this.reportError(error as Error)
     }
   }
 
+  // Renders and drops whatever render is still in flight. Resolves to null when a newer render
+  // took over or the diagram was held back for its size, the caller has nothing left to do.
+  async #renderLatest(renderer: Renderable, options: Omit<RenderOptions, 'signal'> = {}) {
+    this.#renderController?.abort()
+    const controller = new AbortController()
+    this.#renderController = controller
+    this.#renderer = renderer
+    const start = performance.now()
+
+    try {
+      const height = await renderer.render({...options, signal: controller.signal})
+      if (!controller.signal.aborted) return height
+    } catch (error) {
+      if (!controller.signal.aborted && error instanceof DiagramTooLargeError) {
+        this.#holdBack(error)
+        return null
+      }
+      if (!controller.signal.aborted) throw error
+    }
+
+    window.debug(`Render cancelled after ${Math.round(performance.now() - start)}ms, a newer one took over`)
+    return null
+  }
+
+  // Puts a placeholder in place of a diagram that goes over the render limits, rendering it is
+  // left to the user. Diagrams of a group get theirs from the group.
+  #holdBack(error: DiagramTooLargeError) {
+    this.el.replaceChildren(createTooLargePlaceholder(error))
+
+    const {height, x, y} = this.el.getBoundingClientRect()
+    this.iframeMessenger.set(STATUS_TYPES.tooLarge, {
+      error: error.message,
+      limit: error.limit,
+      value: error.value,
+      max: error.max,
+      height: height + x + y,
+    })
+    window.debug(error)
+  }
+
+  // The placeholder of a diagram held back for its size was told to render it anyway
+  #renderAnyway = (event: MouseEvent) => {
+    const button = (event.target as Element).closest('.mermaid-render-anyway')
+    const renderer = this.#renderer
+    if (!button || !renderer) return
+
+    const held =
+      renderer instanceof MermaidRendererGroup ? renderer.renderers.find(({el}) => el.contains(button)) : renderer
+    if (!held) return
+
+    held.ignoreLimits = true
+    this.onAfterLoad(renderer, true)
+  }
+
+  // The first height to make it out is the ready message, whichever render it comes from.
+  // Returns whether it was.
+  #reportHeight(renderer: Renderable, height: number) {
+    if (this.iframeMessenger.alreadySentStatus(STATUS_TYPES.ready)) {
+      this.iframeMessenger.set(STATUS_TYPES.resize, {height})
+      return false
+    }
+
+    this.iframeMessenger.set(STATUS_TYPES.ready, {
+      height,
+      ack: true,
+      // lets the embedding page show credits for the icons
+      iconPacks: renderer.usedIconPacks,
+    })
+    // Sent after ready, the diagram is still usable with blank icons
+    this.#reportWarnings(renderer)
+    return true
+  }
+
+  #reportWarnings(renderer: Renderable) {
+    this.reportIconPackErrors(renderer)
+    this.reportUnresolvedIcons(renderer)
+    if (renderer instanceof MermaidRendererGroup) {
+      this.reportDiagramErrors(renderer)
+      this.reportTooLarge(renderer)
+    }
+  }
+
+  // Brings the pieces of the viewer that work on the <svg> up to date with a new render
+  protected onRendered(renderer: Renderable) {
+    this.rendered = true
+    this.#errorBanner.remove()
+    if (renderer instanceof MermaidRendererGroup) this.#splitPanes(renderer)
+
+    const renderers = renderer instanceof MermaidRendererGroup ? renderer.renderers : [renderer]
+    for (const {el, data, width} of renderers) {
+      const pane = this.#panes.get(el)
+      if (!pane) continue
+
+      // the new <svg> starts out untransformed, put back the saved viewport of a new source or the current one
+      const saved = pane.viewport.load(data, width)
+      if (saved) {
+        pane.panZoom.setTransform(saved)
+      } else {
+        pane.panZoom.apply()
+      }
+    }
+
+    this.minimap.update()
+    this.search.update(false)
+  }
+
+  // Gives every diagram of a group its own pan and zoom, in place of the one for the whole view
+  #splitPanes(group: MermaidRendererGroup) {
+    const sections = new Set(group.renderers.map(renderer => renderer.el))
+    // the whole view on first render, sections that went away when the number of diagrams changed
+    for (const [el, pane] of this.#panes) {
+      if (sections.has(el)) continue
+      pane.panZoom.disconnect()
+      this.#panes.delete(el)
+    }
+
+    for (const renderer of group.renderers) {
+      if (this.#panes.has(renderer.el)) continue
+      const identity = `${this.iframeMessenger.identity}:${renderer.id}`
+      this.#addPane(renderer.el, {panZoom: new PanZoom(renderer.el), viewport: new ViewportStore(identity)})
+    }
+
+    const active = Array.from(this.#panes.values()).some(({panZoom}) => panZoom === this.panZoom)
+    if (!active) this.#activate(group.renderers[0].el)
+  }
+
+  #addPane(el: HTMLElement, pane: Pane) {
+    this.#panes.set(el, pane)
+
+    const save = debounce((transform: Transform) => pane.viewport.save(transform), 250)
+    pane.panZoom.onChange(transform => {
+      save(transform)
+      if (pane.panZoom !== this.panZoom) return
+
+      this.minimap.sync()
+      this.#announceZoom(transform.zoom)
+    })
+  }
+
+  #activate(el: HTMLElement) {
+    const pane = this.#panes.get(el)
+    if (!pane || pane.panZoom === this.panZoom) return
+
+    this.panZoom = pane.panZoom
+    this.viewport = pane.viewport
+    this.minimap.panZoom = pane.panZoom
+    this.search.panZoom = pane.panZoom
+    // leaving fullscreen restores the viewport of the diagram it was entered with
+    if (!this.fullscreen.active) this.fullscreen.panZoom = pane.panZoom
+
+    this.minimap.update()
+    this.search.update(false)
+  }
+
+  protected reportDiagramErrors({errors}: MermaidRendererGroup) {
+    if (!errors.length) return
+
+    this.iframeMessenger.set(STATUS_TYPES.warning, {
+      warning: errors.map(({index, error}) => `Diagram ${index + 1}: ${error}`).join('\n'),
+      diagrams: errors,
+    })
+    window.debug('Diagrams that failed to render:', errors)
+  }
+
+  // The rest of the group is on screen, the ready message went out as usual
+  protected reportTooLarge({tooLarge}: MermaidRendererGroup) {
+    if (!tooLarge.length) return
+
+    this.iframeMessenger.set(STATUS_TYPES.tooLarge, {
+      error: tooLarge.map(({index, error}) => `Diagram ${index + 1}: ${error}`).join('\n'),
+      diagrams: tooLarge,
+    })
+    window.debug('Diagrams held back for their size:', tooLarge)
+  }
+
   protected reportError(error: Error) {
+    // keep the last good diagram up, with the error above it, until the source parses again
+    if (this.rendered) {
+      // the sections of a group show their own errors, a banner over them would say it twice
+      if (error instanceof DiagramGroupError) {
+        this.#errorBanner.remove()
+        return window.debug(error)
+      }
+      this.#errorBanner.textContent = error.message
+      this.el.prepend(this.#errorBanner)
+      return window.debug(error)
+    }
+
     const url = new URL(DOCS_LINK_PATH, getGitHubDocsHostname())
     const message = `
         ${error.message}
     
         For more information, see ${url.toString()}
       `.trim()
-    this.iframeMessenger.set(STATUS_TYPES.error, {error: message})
+    this.iframeMessenger.set(STATUS_TYPES.error, {
+      error: message,
+      // lets the embedding editor point at the broken line
+      ...(error instanceof DiagramSyntaxError && {syntax: error.details}),
+    })
     window.debug(error)
   }
 
+  protected reportIconPackErrors({iconPackErrors}: Renderable) {
+    if (!iconPackErrors.length) return
+
+    this.iframeMessenger.set(STATUS_TYPES.warning, {
+      warning: iconPackErrors
+        .map(({prefix, error}) => `Icon pack '${prefix}' could not be loaded: ${error}`)
+        .join('\n'),
+      failedIconPacks: iconPackErrors,
+    })
+  }
+
+  protected reportUnresolvedIcons({unresolvedIcons}: Renderable) {
+    if (!unresolvedIcons.length) return
+
+    this.iframeMessenger.set(STATUS_TYPES.warning, {
+      warning: formatUnresolvedIcons(unresolvedIcons),
+      icons: unresolvedIcons,
+    })
+    window.debug('Unresolved icons:', unresolvedIcons)
+  }
+
   #panAndZoom = () => {
-    const ZOOM_MIN = 0.5
-    const ZOOM_MAX = 8
+    const doMove = (vertical: number, horizontal: number) => this.panZoom.move(vertical, horizontal)
+    const doZoom = (value: number) => this.panZoom.zoomBy(value)
 
-    let zoomLevel = 1
-    const translate = {x: 0, y: 0}
+    // the transform from before fitting the diagram, restored when the fit is toggled off
+    let beforeFit: Transform | null = null
 
     const reset = () => {
-      zoomLevel = 1
-      translate.x = 0
-      translate.y = 0
-      transformSvg(zoomLevel, translate.x, translate.y)
+      beforeFit = null
+      this.panZoom.reset()
     }
 
-    const doMove = (vertical: number, horizonal: number) => {
-      translate.y += vertical
-      translate.x += horizonal
-      transformSvg(zoomLevel, translate.x, translate.y)
-    }
+    const panUp = () => doMove(100, 0)
+    const panDown = () => doMove(-100, 0)
+    const panLeft = () => doMove(0, 100)
+    const panRight = () => doMove(0, -100)
 
-    const doZoom = (value: number) => {
-      zoomLevel += value
-      zoomLevel = Math.min(Math.max(ZOOM_MIN, zoomLevel), ZOOM_MAX)
-      transformSvg(zoomLevel, translate.x, translate.y)
-    }
-
-    const transformSvg = (zoom: number, x: number, y: number) => {
-      const svg = this.el.getElementsByTagName('svg')[0]
-      svg.style.transform = `translate(${x}px, ${y}px) scale(${zoom})`
+    const toggleFit = () => {
+      if (beforeFit) {
+        this.panZoom.setTransform(beforeFit)
+        beforeFit = null
+      } else {
+        beforeFit = this.panZoom.transform
+        this.panZoom.fitToView()
+      }
     }
 
-    const controlPanel = this.#createElement('div', 'mermaid-viewer-control-panel', '', null)
+    const controlPanel = this.#createElement('div', 'mermaid-viewer-control-panel', '', null, 'Diagram controls')
+    controlPanel.setAttribute('role', 'toolbar')
     const df = document.createDocumentFragment()
     df.appendChild(
-      this.#createElement('button', 'btn zoom-in', octicons['zoom-in'].toSVG(), () => doZoom(0.1), 'Zoom in'),
+      this.#createElement('button', 'btn zoom-in', octicons['zoom-in'].toSVG(), () => doZoom(0.1), 'Zoom in', '+'),
     )
     df.appendChild(
-      this.#createElement('button', 'btn zoom-out', octicons['zoom-out'].toSVG(), () => doZoom(-0.1), 'Zoom out'),
+      this.#createElement('button', 'btn zoom-out', octicons['zoom-out'].toSVG(), () => doZoom(-0.1), 'Zoom out', '-'),
+    )
+    df.appendChild(this.#createElement('button', 'btn reset', octicons['sync'].toSVG(), reset, 'Reset view', '0'))
+    df.appendChild(this.#createElement('button', 'btn fit', octicons['maximize'].toSVG(), toggleFit, 'Fit to view'))
+
+    const fullscreen = this.#createElement(
+      'button',
+      'btn fullscreen',
+      octicons['screen-full'].toSVG(),
+      this.fullscreen.toggle,
+      'Enter fullscreen',
     )
-    df.appendChild(this.#createElement('button', 'btn reset', octicons['sync'].toSVG(), reset, 'Reset view'))
+    this.fullscreen.onChange(active => {
+      fullscreen.innerHTML = octicons[active ? 'screen-normal' : 'screen-full'].toSVG()
+      fullscreen.ariaLabel = active ? 'Exit fullscreen' : 'Enter fullscreen'
+    })
+    df.appendChild(fullscreen)
     df.appendChild(
-      this.#createElement('button', 'btn up', octicons['chevron-up'].toSVG(), () => doMove(100, 0), 'Pan up'),
+      this.#createElement('button', 'btn minimap', octicons['location'].toSVG(), this.minimap.toggle, 'Toggle minimap'),
     )
+    df.appendChild(this.#createElement('button', 'btn up', octicons['chevron-up'].toSVG(), panUp, 'Pan up', 'ArrowUp'))
     df.appendChild(
-      this.#createElement('button', 'btn down', octicons['chevron-down'].toSVG(), () => doMove(-100, 0), 'Pan down'),
+      this.#createElement('button', 'btn down', octicons['chevron-down'].toSVG(), panDown, 'Pan down', 'ArrowDown'),
     )
     df.appendChild(
-      this.#createElement('button', 'btn left', octicons['chevron-left'].toSVG(), () => doMove(0, 100), 'Pan left'),
+      this.#createElement('button', 'btn left', octicons['chevron-left'].toSVG(), panLeft, 'Pan left', 'ArrowLeft'),
     )
     df.appendChild(
-      this.#createElement('button', 'btn right', octicons['chevron-right'].toSVG(), () => doMove(0, -100), 'Pan right'),
+      this.#createElement(
+        'button',
+        'btn right',
+        octicons['chevron-right'].toSVG(),
+        panRight,
+        'Pan right',
+        'ArrowRight',
+      ),
     )
 
+    const scale = this.#createElement('select', 'form-select export-scale', '', null, 'PNG scale') as HTMLSelectElement
+    for (const value of EXPORT_SCALES) {
+      scale.add(new Option(`${value}x`, String(value)))
+    }
+    df.appendChild(
+      this.#createElement(
+        'button',
+        'btn export-svg',
+        octicons['download'].toSVG(),
+        () => this.#exportDiagram(svg => exportSVG(svg)),
+        'Download SVG',
+      ),
+    )
+    df.appendChild(
+      this.#createElement(
+        'button',
+        'btn export-png',
+        octicons['image'].toSVG(),
+        () => this.#exportDiagram(svg => exportPNG(svg, Number(scale.value))),
+        'Download PNG',
+      ),
+    )
+    df.appendChild(scale)
+    df.appendChild(this.search.el)
+
     controlPanel.appendChild(df)
-    document.body.appendChild(controlPanel)
+    this.container.appendChild(controlPanel)
+
+    // The same steps as the buttons, while the diagram or one of its controls has focus
+    const shortcuts: Record<string, () => void> = {
+      ArrowUp: panUp,
+      ArrowDown: panDown,
+      ArrowLeft: panLeft,
+      ArrowRight: panRight,
+      '+': () => doZoom(0.1),
+      '=': () => doZoom(0.1),
+      '-': () => doZoom(-0.1),
+      '0': reset,
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return
+      if ((event.target as Element).closest('input, select, textarea')) return
+
+      const action = shortcuts[event.key]
+      if (!action) return
+
+      event.preventDefault()
+      action()
+    }
+
+    this.el.tabIndex = 0
+    this.el.setAttribute('role', 'group')
+    this.el.ariaLabel = 'Diagram, use the arrow keys to pan, + and - to zoom and 0 to reset'
+    this.el.addEventListener('keydown', onKeyDown)
+    controlPanel.addEventListener('keydown', onKeyDown)
+
+    this.#announcer.className = 'sr-only'
+    this.#announcer.setAttribute('aria-live', 'polite')
+    this.container.appendChild(this.#announcer)
+  }
+
+  // Announces the zoom level once a gesture settles rather than on every step
+  #announceZoom = debounce((zoom: number) => {
+    if (zoom === this.#announcedZoom) return
+
+    this.#announcedZoom = zoom
+    this.#announcer.textContent = `Zoom ${Math.round(zoom * 100)}%`
+  }, 300)
+
+  #exportDiagram = async (exporter: (svg: SVGSVGElement) => DiagramExport | Promise<DiagramExport>) => {
+    const svg = this.panZoom.svg
+    if (!svg) return
+
+    try {
+      const file = await exporter(svg)
+      this.#exportError.remove()
+
+      // Sandboxed iframes can't download files unless the embedding page allows it,
+      // in which case the parent is handed the file instead.
+      if (!this.iframeMessenger.haveParent() || document.body.hasAttribute('data-allow-downloads')) {
+        download(file)
+      } else {
+        this.iframeMessenger.set(STATUS_TYPES.export, {
+          filename: file.filename,
+          mimeType: file.mimeType,
+          data: await toDataURL(file.blob),
+        })
+      }
+    } catch (error) {
+      const message = `Could not export the diagram: ${(error as Error).message}`
+      if (this.iframeMessenger.haveParent()) {
+        this.iframeMessenger.set(STATUS_TYPES.warning, {warning: message})
+      } else {
+        this.#exportError.textContent = message
+        this.container.appendChild(this.#exportError)
+      }
+      window.debug('Could not export the diagram:', error)
+    }
   }
 
   #createElement = (
@@ -165,12 +622,14 @@ export abstract class MermaidViewer<CustomEventType extends ContainerResizeEvent
     innerHTML: string,
     onClick: ((event: MouseEvent) => void) | null,
     label?: string,
+    shortcut?: string,
   ): HTMLElement => {
     const element = document.createElement(tag)
     element.className = className
     element.innerHTML = innerHTML
     element.onclick = onClick
     if (label) element.ariaLabel = label
+    if (shortcut) element.ariaKeyShortcuts = shortcut
     return element
   }
 }
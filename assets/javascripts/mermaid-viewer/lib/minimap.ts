@@ -0,0 +1,131 @@
+import {reSanitize} from './mermaid-renderer'
+import type PanZoom from './pan-zoom'
+
+const MINIMAP_WIDTH = 160
+// Prefix for the ids in the clone, so they don't clash with the ones in the diagram
+const ID_PREFIX = 'minimap-'
+const ID_REFERENCE = /#([A-Za-z][\w-]*)/g
+
+/**
+ * Gives every element of the clone a new id and points the references to them at the new ids:
+ * `url(#…)` paints, `href="#…"` and the `#diagram …` selectors mermaid scopes its styles with.
+ */
+const rewriteIds = (svg: SVGSVGElement) => {
+  const ids = new Set<string>()
+  for (const element of [svg, ...svg.querySelectorAll('*')].filter(({id}) => id)) {
+    ids.add(element.id)
+    element.id = `${ID_PREFIX}${element.id}`
+  }
+
+  const rewrite = (value: string) =>
+    value.replace(ID_REFERENCE, (match, id) => (ids.has(id) ? `#${ID_PREFIX}${id}` : match))
+
+  for (const element of [svg, ...svg.querySelectorAll('*')]) {
+    for (const attribute of element.attributes) {
+      if (attribute.value.includes('#')) attribute.value = rewrite(attribute.value)
+    }
+  }
+  for (const style of svg.querySelectorAll('style')) {
+    style.textContent = rewrite(style.textContent ?? '')
+  }
+}
+
+/**
+ * A small overview of the whole diagram with a rectangle marking the part that is on screen.
+ * Dragging the rectangle, or clicking anywhere in the overview, pans the diagram there.
+ */
+class Minimap {
+  panZoom: PanZoom
+  el: HTMLElement
+  #viewport: HTMLElement
+
+  constructor(panZoom: PanZoom, container: HTMLElement = document.body) {
+    this.panZoom = panZoom
+
+    this.el = document.createElement('div')
+    this.el.className = 'mermaid-minimap'
+    this.el.hidden = true
+    this.el.setAttribute('aria-hidden', 'true')
+
+    this.#viewport = document.createElement('div')
+    this.#viewport.className = 'mermaid-minimap-viewport'
+    this.#viewport.style.position = 'absolute'
+
+    this.el.addEventListener('pointerdown', (event: PointerEvent) => {
+      this.el.setPointerCapture(event.pointerId)
+      this.#panTo(event)
+    })
+    this.el.addEventListener('pointermove', (event: PointerEvent) => {
+      if (this.el.hasPointerCapture(event.pointerId)) this.#panTo(event)
+    })
+
+    window.addEventListener('resize', () => this.sync())
+    container.appendChild(this.el)
+  }
+
+  get visible() {
+    return !this.el.hidden
+  }
+
+  toggle = () => {
+    this.el.hidden = !this.el.hidden
+    this.update()
+  }
+
+  // Draws the overview again from the diagram currently in the viewer
+  update() {
+    const svg = this.panZoom.svg
+    if (!this.visible || !svg) return
+
+    // The clone goes through the same sanitization as the diagram itself
+    const clone = reSanitize(svg.outerHTML).querySelector('svg')
+    if (!clone) return
+
+    rewriteIds(clone)
+    clone.removeAttribute('style')
+    clone.setAttribute('width', '100%')
+    clone.setAttribute('height', '100%')
+    clone.setAttribute('focusable', 'false')
+    clone.style.pointerEvents = 'none'
+
+    this.el.replaceChildren(clone, this.#viewport)
+    this.sync()
+  }
+
+  // Moves the viewport rectangle to match the part of the diagram its pane shows, whenever the
+  // diagram is panned or zoomed
+  sync() {
+    const svg = this.panZoom.svg
+    if (!this.visible || !svg) return
+
+    const rect = svg.getBoundingClientRect()
+    const pane = this.panZoom.el.getBoundingClientRect()
+    const scale = MINIMAP_WIDTH / rect.width
+
+    this.el.style.width = `${MINIMAP_WIDTH}px`
+    this.el.style.height = `${rect.height * scale}px`
+
+    Object.assign(this.#viewport.style, {
+      left: `${(pane.left - rect.left) * scale}px`,
+      top: `${(pane.top - rect.top) * scale}px`,
+      width: `${pane.width * scale}px`,
+      height: `${pane.height * scale}px`,
+    })
+  }
+
+  // Centres the main view on the point of the overview under the pointer
+  #panTo(event: PointerEvent) {
+    const svg = this.panZoom.svg
+    if (!svg) return
+
+    const rect = svg.getBoundingClientRect()
+    const scale = rect.width / MINIMAP_WIDTH
+    const viewport = this.#viewport.getBoundingClientRect()
+    const dx = event.clientX - (viewport.left + viewport.width / 2)
+    const dy = event.clientY - (viewport.top + viewport.height / 2)
+
+    this.panZoom.move(-dy * scale, -dx * scale)
+  }
+}
+
+export default Minimap
@@ -0,0 +1,337 @@
+export const ZOOM_MIN = 0.5
+export const ZOOM_MAX = 8
+
+// Wheel deltas are multiplied by this to get the zoom factor, pinch gestures on trackpads
+// report much smaller deltas than mouse wheels
+const WHEEL_ZOOM_SPEED = 0.002
+const PINCH_ZOOM_SPEED = 0.01
+const LINE_HEIGHT = 16
+// Pointer movement before a press turns into a drag, so clicks on links still work
+const DRAG_THRESHOLD = 3
+// Fraction of the velocity kept every frame once a drag is released
+const INERTIA_FRICTION = 0.92
+const INERTIA_MIN_VELOCITY = 0.02
+const ANIMATION_DURATION = 300
+
+export type Transform = {
+  zoom: number
+  x: number
+  y: number
+}
+
+type Point = {x: number; y: number}
+
+export type Rect = Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>
+
+const easeOut = (progress: number) => 1 - (1 - progress) ** 3
+const clampZoom = (zoom: number) => Math.min(Math.max(ZOOM_MIN, zoom), ZOOM_MAX)
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+const midpoint = (a: Point, b: Point) => ({x: (a.x + b.x) / 2, y: (a.y + b.y) / 2})
+// How far along the spare room an SVGPreserveAspectRatio `align` puts the viewBox: 0 for min, 0.5 mid, 1 max.
+// The values run xMinYMin = 2 to xMaxYMax = 10, x changing fastest; `none` stretches and leaves no room.
+const alignment = (align: number, axis: keyof Point) => {
+  if (align === SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_NONE) return 0
+  if (align === SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_UNKNOWN) return 0.5
+  const index = align - SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_XMINYMIN
+  return (axis === 'x' ? index % 3 : Math.floor(index / 3)) / 2
+}
+
+/**
+ * Holds the pan and zoom state of a rendered diagram and handles the gestures that change it:
+ * wheel and trackpad pinch zoom centred on the cursor, and mouse or touch drag to pan, with
+ * inertia once the drag is released.
+ *
+ * To stay out of the way of the page scrolling the iframe, wheel and touch gestures only
+ * take over once the user has clicked into the diagram. Pinching on a trackpad, or holding
+ * ctrl/cmd while using the wheel, works straight away.
+ */
+class PanZoom {
+  el: HTMLElement
+  zoomLevel = 1
+  translate: Point = {x: 0, y: 0}
+  #listeners: Array<(transform: Transform) => void> = []
+  #engaged = false
+  #pointers = new Map<number, Point>()
+  #drag: {last: Point; moved: boolean; velocity: Point; time: number} | null = null
+  #pinch: {distance: number; center: Point} | null = null
+  #animation: number | null = null
+  #connection = new AbortController()
+
+  constructor(el: HTMLElement) {
+    this.el = el
+    const {signal} = this.#connection
+
+    el.addEventListener('wheel', this.#onWheel, {passive: false, signal})
+    el.addEventListener('pointerdown', this.#onPointerDown, {signal})
+    el.addEventListener('pointermove', this.#onPointerMove, {signal})
+    el.addEventListener('pointerup', this.#onPointerUp, {signal})
+    el.addEventListener('pointercancel', this.#onPointerUp, {signal})
+    // a drag shouldn't also follow a link it happened to start on
+    el.addEventListener('click', this.#onClick, {capture: true, signal})
+
+    document.addEventListener(
+      'pointerdown',
+      (event: PointerEvent) => {
+        if (!el.contains(event.target as Node)) this.#setEngaged(false)
+      },
+      {signal},
+    )
+    window.addEventListener('blur', () => this.#setEngaged(false), {signal})
+  }
+
+  // Stops handling gestures, e.g. when the element is split up into several diagrams
+  disconnect() {
+    this.#stopAnimation()
+    this.#connection.abort()
+  }
+
+  get svg() {
+    return this.el.querySelector<SVGSVGElement>('.mermaid > svg')
+  }
+
+  get transform(): Transform {
+    return {zoom: this.zoomLevel, x: this.translate.x, y: this.translate.y}
+  }
+
+  onChange(listener: (transform: Transform) => void) {
+    this.#listeners.push(listener)
+  }
+
+  setTransform({zoom, x, y}: Transform) {
+    this.zoomLevel = clampZoom(zoom)
+    this.translate = {x, y}
+    this.apply()
+  }
+
+  // Re-applies the current transform, e.g. after the diagram was rendered again
+  apply() {
+    const svg = this.svg
+    if (svg) {
+      svg.style.transformOrigin = '0 0'
+      svg.style.transform = `translate(${this.translate.x}px, ${this.translate.y}px) scale(${this.zoomLevel})`
+    }
+
+    for (const listener of this.#listeners) listener(this.transform)
+  }
+
+  reset = () => {
+    this.#stopAnimation()
+    this.setTransform({zoom: 1, x: 0, y: 0})
+  }
+
+  move = (vertical: number, horizontal: number) => {
+    this.#stopAnimation()
+    this.setTransform({zoom: this.zoomLevel, x: this.translate.x + horizontal, y: this.translate.y + vertical})
+  }
+
+  // Zooms by a fixed step around the middle of the view, as the control panel buttons do
+  zoomBy = (value: number) => {
+    const {left, top, width, height} = this.el.getBoundingClientRect()
+    this.zoomTo(this.zoomLevel + value, {x: left + width / 2, y: top + height / 2})
+  }
+
+  // Zooms to `zoom`, keeping the point of the diagram under `focus` (in client coordinates) in place
+  zoomTo(zoom: number, focus: Point) {
+    const svg = this.svg
+    const nextZoom = clampZoom(zoom)
+    if (!svg) return
+
+    // position of the focus relative to the untransformed diagram
+    const rect = svg.getBoundingClientRect()
+    const origin = {x: rect.left - this.translate.x, y: rect.top - this.translate.y}
+    const point = {x: focus.x - origin.x, y: focus.y - origin.y}
+    const ratio = nextZoom / this.zoomLevel
+
+    this.setTransform({
+      zoom: nextZoom,
+      x: point.x - (point.x - this.translate.x) * ratio,
+      y: point.y - (point.y - this.translate.y) * ratio,
+    })
+  }
+
+  // Moves smoothly to `transform`, e.g. to bring a search result into view
+  animateTo(transform: Transform, duration = ANIMATION_DURATION) {
+    this.#stopAnimation()
+
+    const from = this.transform
+    const to = {...transform, zoom: clampZoom(transform.zoom)}
+    const start = performance.now()
+
+    const step = (now: number) => {
+      const progress = easeOut(Math.min((now - start) / duration, 1))
+      const between = (key: keyof Transform) => from[key] + (to[key] - from[key]) * progress
+
+      this.setTransform({zoom: between('zoom'), x: between('x'), y: between('y')})
+      this.#animation = progress < 1 ? requestAnimationFrame(step) : null
+    }
+
+    this.#animation = requestAnimationFrame(step)
+  }
+
+  // Zooms and centres the whole diagram inside `target` (in client coordinates), which defaults
+  // to the viewer itself. The size comes from the viewBox rather than the <svg> element, which
+  // the renderer may have squeezed to fit the container width.
+  fitToView(target: Rect = this.el.getBoundingClientRect()) {
+    const svg = this.svg
+    const viewBox = svg?.viewBox.baseVal
+    if (!svg || !viewBox?.width || !viewBox.height) return
+
+    this.#stopAnimation()
+
+    // the untransformed box of the <svg>, and where the viewBox is drawn inside it
+    const rect = svg.getBoundingClientRect()
+    const origin = {x: rect.left - this.translate.x, y: rect.top - this.translate.y}
+    const box = {width: rect.width / this.zoomLevel, height: rect.height / this.zoomLevel}
+    const scale = Math.min(box.width / viewBox.width, box.height / viewBox.height)
+    const drawn = {width: viewBox.width * scale, height: viewBox.height * scale}
+    // the renderer sets `preserveAspectRatio="xMinYMin"`, read it rather than assume a centred viewBox
+    const {align} = svg.preserveAspectRatio.baseVal
+    const offset = {
+      x: (box.width - drawn.width) * alignment(align, 'x'),
+      y: (box.height - drawn.height) * alignment(align, 'y'),
+    }
+
+    const zoom = clampZoom(Math.min(target.width / drawn.width, target.height / drawn.height))
+
+    this.setTransform({
+      zoom,
+      x: target.left + (target.width - drawn.width * zoom) / 2 - offset.x * zoom - origin.x,
+      y: target.top + (target.height - drawn.height * zoom) / 2 - offset.y * zoom - origin.y,
+    })
+  }
+
+  #setEngaged(engaged: boolean) {
+    this.#engaged = engaged
+    this.el.classList.toggle('is-engaged', engaged)
+    // Let touch gestures scroll the page until the user taps into the diagram
+    this.el.style.touchAction = engaged ? 'none' : ''
+  }
+
+  #onWheel = (event: WheelEvent) => {
+    // trackpad pinches arrive as wheel events with ctrlKey set
+    const modifier = event.ctrlKey || event.metaKey
+    if (!modifier && !this.#engaged) return
+
+    event.preventDefault()
+    this.#stopAnimation()
+
+    const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * LINE_HEIGHT : event.deltaY
+    const speed = event.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED
+    this.zoomTo(this.zoomLevel * Math.exp(-delta * speed), {x: event.clientX, y: event.clientY})
+  }
+
+  #onPointerDown = (event: PointerEvent) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return
+    // leave the control panel and other widgets alone
+    if ((event.target as Element).closest('button, input, select')) return
+
+    this.#setEngaged(true)
+    this.#stopAnimation()
+    this.#pointers.set(event.pointerId, {x: event.clientX, y: event.clientY})
+
+    if (this.#pointers.size === 1) {
+      this.#drag = {
+        last: {x: event.clientX, y: event.clientY},
+        moved: false,
+        velocity: {x: 0, y: 0},
+        time: event.timeStamp,
+      }
+    } else if (this.#pointers.size === 2) {
+      const [a, b] = Array.from(this.#pointers.values())
+      this.#drag = null
+      this.#pinch = {distance: distance(a, b), center: midpoint(a, b)}
+    }
+  }
+
+  #onPointerMove = (event: PointerEvent) => {
+    if (!this.#pointers.has(event.pointerId)) return
+    this.#pointers.set(event.pointerId, {x: event.clientX, y: event.clientY})
+
+    if (this.#pinch && this.#pointers.size === 2) {
+      const [a, b] = Array.from(this.#pointers.values())
+      const center = midpoint(a, b)
+      const nextDistance = distance(a, b)
+
+      this.move(center.y - this.#pinch.center.y, center.x - this.#pinch.center.x)
+      this.zoomTo(this.zoomLevel * (nextDistance / this.#pinch.distance), center)
+      this.#pinch = {distance: nextDistance, center}
+      return
+    }
+
+    const drag = this.#drag
+    if (!drag) return
+
+    const dx = event.clientX - drag.last.x
+    const dy = event.clientY - drag.last.y
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+
+    if (!drag.moved) {
+      drag.moved = true
+      this.el.setPointerCapture(event.pointerId)
+      this.el.classList.add('is-dragging')
+    }
+
+    const elapsed = Math.max(event.timeStamp - drag.time, 1)
+    drag.velocity = {x: dx / elapsed, y: dy / elapsed}
+    drag.last = {x: event.clientX, y: event.clientY}
+    drag.time = event.timeStamp
+    this.setTransform({zoom: this.zoomLevel, x: this.translate.x + dx, y: this.translate.y + dy})
+  }
+
+  #onPointerUp = (event: PointerEvent) => {
+    this.#pointers.delete(event.pointerId)
+    this.el.classList.remove('is-dragging')
+
+    if (this.#pinch) {
+      this.#pinch = null
+      return
+    }
+
+    const drag = this.#drag
+    if (drag?.moved) {
+      // a pause before letting go means the user wanted to stop there
+      const idle = event.timeStamp - drag.time > 100
+      if (!idle) this.#startInertia(drag.velocity)
+      // keep the flag until the click that follows this pointerup has been swallowed
+      setTimeout(() => (this.#drag = null))
+    } else {
+      this.#drag = null
+    }
+  }
+
+  #onClick = (event: MouseEvent) => {
+    if (!this.#drag?.moved) return
+
+    event.preventDefault()
+    event.stopPropagation()
+  }
+
+  #startInertia(velocity: Point) {
+    let last = performance.now()
+    let {x, y} = velocity
+
+    const step = (now: number) => {
+      const elapsed = now - last
+      last = now
+      x *= INERTIA_FRICTION
+      y *= INERTIA_FRICTION
+
+      if (Math.hypot(x, y) < INERTIA_MIN_VELOCITY) {
+        this.#animation = null
+        return
+      }
+
+      this.setTransform({zoom: this.zoomLevel, x: this.translate.x + x * elapsed, y: this.translate.y + y * elapsed})
+      this.#animation = requestAnimationFrame(step)
+    }
+
+    this.#animation = requestAnimationFrame(step)
+  }
+
+  #stopAnimation() {
+    if (this.#animation !== null) cancelAnimationFrame(this.#animation)
+    this.#animation = null
+  }
+}
+
+export default PanZoom
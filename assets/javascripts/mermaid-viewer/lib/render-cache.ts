@@ -0,0 +1,57 @@
+import type {UnresolvedIcon} from './icon-diagnostics'
+import iconRegistry from './icon-registry'
+import type {IconPackInfo} from './icon-registry'
+
+// Renders kept around, enough for a page of diagrams at a couple of widths each
+const MAX_ENTRIES = 32
+
+export type CachedRender = {
+  // the sanitized contents of the view, cloned in and out so the cache never shares nodes with the page
+  nodes: Node[]
+  height: number
+  unresolvedIcons: UnresolvedIcon[]
+  usedIconPacks: IconPackInfo[]
+}
+
+/**
+ * Least recently used cache of finished renders, so rendering the same diagram at the same size
+ * again, on the ready ack or when the window is resized back and forth, skips mermaid.
+ */
+class RenderCache {
+  #entries = new Map<string, CachedRender>()
+
+  get(key: string) {
+    const entry = this.#entries.get(key)
+    if (!entry) {
+      window.debug('Render cache miss:', key)
+      return undefined
+    }
+
+    window.debug('Render cache hit:', key)
+    // Maps iterate in insertion order, move the entry to the back as the most recently used
+    this.#entries.delete(key)
+    this.#entries.set(key, entry)
+    return entry
+  }
+
+  set(key: string, entry: CachedRender) {
+    this.#entries.delete(key)
+    this.#entries.set(key, entry)
+
+    for (const oldest of this.#entries.keys()) {
+      if (this.#entries.size <= MAX_ENTRIES) break
+      this.#entries.delete(oldest)
+    }
+  }
+
+  clear() {
+    this.#entries.clear()
+  }
+}
+
+const renderCache = new RenderCache()
+
+// A pack registered late, like the repository's custom icons, can change how cached diagrams look
+iconRegistry.onChange(() => renderCache.clear())
+
+export default renderCache
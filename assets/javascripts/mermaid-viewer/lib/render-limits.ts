@@ -0,0 +1,111 @@
+// Below mermaid's own `maxTextSize`, so rendering anyway still gets past mermaid
+const DEFAULT_MAX_SOURCE_SIZE = 20_000
+const DEFAULT_MAX_ELEMENTS = 1_000
+const DEFAULT_TIMEOUT = 10_000
+
+// Connections in the common diagram syntaxes: `-->`, `==>`, `-.->`, `->>`, `---`, `<|--`, `}o--o{`
+const EDGE = /[<|}o*x]?(?:-{2,}|={2,}|-\.+-|\.{2,}|->>?)[>|{o*x]?/g
+const COMMENT = /^\s*%%/
+
+export type RenderLimits = {
+  // characters of source
+  maxSourceSize: number
+  // nodes and edges, estimated from the source
+  maxElements: number
+  // ms a render may take before its result is dropped
+  timeout: number
+}
+
+export type RenderLimit = keyof RenderLimits
+
+// The embedding page sets its own limits with `data-max-source-size`, `data-max-diagram-elements`
+// and `data-render-timeout`, 0 turns a limit off
+const readLimit = (attribute: string, fallback: number) => {
+  const value = document.body.getAttribute(attribute)
+  const limit = value === null || value.trim() === '' ? NaN : Number(value)
+  return Number.isFinite(limit) && limit >= 0 ? limit : fallback
+}
+
+export const readRenderLimits = (): RenderLimits => ({
+  maxSourceSize: readLimit('data-max-source-size', DEFAULT_MAX_SOURCE_SIZE),
+  maxElements: readLimit('data-max-diagram-elements', DEFAULT_MAX_ELEMENTS),
+  timeout: readLimit('data-render-timeout', DEFAULT_TIMEOUT),
+})
+
+export class DiagramTooLargeError extends Error {
+  limit: RenderLimit
+  value: number
+  max: number
+
+  constructor(limit: RenderLimit, value: number, max: number) {
+    const descriptions: Record<RenderLimit, string> = {
+      maxSourceSize: `is ${value} characters long, over the limit of ${max}`,
+      maxElements: `has about ${value} nodes and edges, over the limit of ${max}`,
+      timeout: `took longer than ${max}ms to lay out`,
+    }
+    super(`This diagram ${descriptions[limit]}`)
+    this.limit = limit
+    this.value = value
+    this.max = max
+  }
+}
+
+/**
+ * A rough count of the nodes and edges in a diagram, without parsing it: every statement is
+ * taken for a node and every arrow for an edge. Good enough to catch diagrams that would
+ * freeze the layout.
+ */
+export function estimateElements(source: string) {
+  const statements = source.split(/\r\n|\r|\n/).filter(line => line.trim() && !COMMENT.test(line))
+  const edges = statements.reduce((count, line) => count + (line.match(EDGE)?.length ?? 0), 0)
+  return {nodes: statements.length, edges}
+}
+
+// Throws a `DiagramTooLargeError` for the first limit the source goes over
+export function checkRenderLimits(source: string, {maxSourceSize, maxElements}: RenderLimits) {
+  if (maxSourceSize && source.length > maxSourceSize) {
+    throw new DiagramTooLargeError('maxSourceSize', source.length, maxSourceSize)
+  }
+
+  const {nodes, edges} = estimateElements(source)
+  if (maxElements && nodes + edges > maxElements) {
+    throw new DiagramTooLargeError('maxElements', nodes + edges, maxElements)
+  }
+}
+
+/**
+ * Rejects with a `DiagramTooLargeError` when the render takes longer than `timeout`. This doesn't
+ * keep a diagram from freezing the page, mermaid lays diagrams out synchronously and the timer
+ * can't fire until it's done, the source size and element limits are what catch those. Nor can
+ * the render be stopped, it goes on in the background and its result is dropped.
+ */
+export function withRenderTimeout<T>(render: Promise<T>, timeout: number) {
+  if (!timeout) return render
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new DiagramTooLargeError('timeout', timeout, timeout)), timeout)
+  })
+
+  return Promise.race([render, expired]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Stands in for a diagram that goes over the render limits. The viewer renders the diagram when
+ * the `mermaid-render-anyway` button is clicked.
+ */
+export function createTooLargePlaceholder(error: DiagramTooLargeError) {
+  const placeholder = document.createElement('div')
+  placeholder.className = 'flash mermaid-too-large'
+
+  const message = document.createElement('p')
+  message.textContent = `${error.message}, so it wasn't rendered automatically.`
+
+  const button = document.createElement('button')
+  button.type = 'button'
+  button.className = 'btn mermaid-render-anyway'
+  button.textContent = 'Render anyway'
+
+  placeholder.append(message, button)
+  return placeholder
+}
@@ -0,0 +1,85 @@
+// One replacement, with where it starts in the text before and after it was made
+type Edit = {from: number; to: number; before: string; after: string}
+
+// Matches `text` on its own, ids only as a whole, `logos:aws` is not in `logos:aws-lambda`
+const standalonePattern = (text: string) =>
+  [
+    /^[\w:-]/.test(text) ? '(?<![\\w:-])' : '',
+    text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+    /[\w:-]$/.test(text) ? '(?![\\w:-])' : '',
+  ].join('')
+
+// Where `offset`, past the edits of a single pass, was before them. An offset inside a
+// replacement goes to its start, or to its end for the `end` of a range.
+const traceEdits = (edits: Edit[], offset: number, end: boolean) => {
+  let shift = 0
+  for (const {from, to, before, after} of edits) {
+    if (offset <= to) break
+    if (offset < to + after.length) return end ? from + before.length : from
+    shift += after.length - before.length
+  }
+  return offset - shift
+}
+
+/**
+ * Diagram source the way mermaid gets it, with aliases swapped for icon ids and inline icons for
+ * markers. Every replacement is kept, so the positions mermaid reports in the rewritten text can
+ * be traced back to the source that was written.
+ */
+class RewrittenSource {
+  original: string
+  text: string
+  // the edits of every `replace`, in order
+  #passes: Edit[][]
+
+  constructor(original: string, text = original, passes: Edit[][] = []) {
+    this.original = original
+    this.text = text
+    this.#passes = passes
+  }
+
+  // Like `String.replace` with a global pattern, returns the rewritten source
+  replace(pattern: RegExp, replacer: (match: RegExpExecArray) => string) {
+    const edits: Edit[] = []
+    let text = ''
+    let last = 0
+
+    for (const match of this.text.matchAll(pattern)) {
+      const replacement = replacer(match)
+      text += this.text.slice(last, match.index)
+      if (replacement !== match[0]) {
+        edits.push({from: match.index, to: text.length, before: match[0], after: replacement})
+      }
+      text += replacement
+      last = match.index + match[0].length
+    }
+
+    return new RewrittenSource(this.original, text + this.text.slice(last), [...this.#passes, edits])
+  }
+
+  // Where `offset` in the rewritten text is in the original
+  originalOffset(offset: number, end = false) {
+    return this.#passes.reduceRight((traced, edits) => traceEdits(edits, traced, end), offset)
+  }
+
+  // Puts back what was written in place of the replacements found in `text`, like the markers in
+  // the line a parser error quotes. Replacements that stand for more than one thing stay.
+  restore(text: string) {
+    return this.#passes.reduceRight((restored, edits) => {
+      const written = new Map<string, string | null>()
+      for (const {before, after} of edits) {
+        written.set(after, written.has(after) && written.get(after) !== before ? null : before)
+      }
+
+      const replacements = Array.from(written.keys())
+        .filter(after => written.get(after) !== null)
+        .sort((a, b) => b.length - a.length)
+      if (!replacements.length) return restored
+
+      const pattern = new RegExp(replacements.map(standalonePattern).join('|'), 'g')
+      return restored.replace(pattern, after => written.get(after) ?? after)
+    }, text)
+  }
+}
+
+export default RewrittenSource
@@ -0,0 +1,40 @@
+import {MermaidStandaloneViewer} from './standalone-viewer'
+
+// Fenced ```mermaid blocks, as most markdown renderers output them
+export const MERMAID_BLOCK_SELECTOR = 'pre > code.language-mermaid'
+
+let diagramCount = 0
+
+/**
+ * Replaces a mermaid code block with the rendered diagram and its controls. Takes the <code>
+ * element or the <pre> around it, and resolves once the diagram is on the page.
+ */
+export async function renderElement(element: Element) {
+  const code = element.matches('code') ? element : (element.querySelector('code') ?? element)
+  const block = code.closest('pre') ?? code
+
+  const container = document.createElement('div')
+  container.className = 'mermaid-standalone'
+  const el = document.createElement('div')
+  el.className = 'mermaid-view'
+  container.appendChild(el)
+  block.replaceWith(container)
+
+  const viewer = new MermaidStandaloneViewer({
+    source: code.textContent ?? '',
+    el,
+    container,
+    id: `mermaid-diagram-${diagramCount++}`,
+  })
+  await viewer.initialize()
+
+  return viewer
+}
+
+/**
+ * Renders every mermaid code block inside `root`. Blocks that were already rendered are gone
+ * from the page, so this can be called again after more content was added.
+ */
+export function renderAll(root: ParentNode = document) {
+  return Promise.all(Array.from(root.querySelectorAll(MERMAID_BLOCK_SELECTOR), renderElement))
+}
@@ -0,0 +1,73 @@
+import MermaidRenderer, {fitHeightToWidth} from './mermaid-renderer'
+import {MermaidViewer} from './mermaid-viewer'
+import type {Renderable} from './mermaid-viewer'
+import {DiagramSyntaxError, formatSourceExcerpt} from './syntax-error'
+
+type StandaloneViewerConfig = {
+  source: string
+  el: HTMLElement
+  container: HTMLElement
+  // unique on the page, the <svg> ids of every diagram are prefixed with it
+  id: string
+}
+
+/**
+ * Renders a diagram straight on the page that contains it, without the render iframe.
+ *
+ * The source comes from the page rather than from a parent frame, and there is no embedding
+ * page to resize the frame and ack, so the diagram is rendered in a single pass and errors
+ * are shown in place of the diagram.
+ */
+class MermaidStandaloneViewer extends MermaidViewer<MarkdownResponseEvent> {
+  source: string
+  id: string
+
+  constructor({source, el, container, id}: StandaloneViewerConfig) {
+    super({el, container, identity: id})
+    this.source = source
+    this.id = id
+  }
+
+  initialize() {
+    return this.onAfterLoad(this.onLoad())
+  }
+
+  onLoad(_event?: ContainerResizeEvent | MarkdownResponseEvent, renderer?: Renderable) {
+    if (renderer) return renderer
+
+    const created = new MermaidRenderer({
+      data: this.source,
+      el: this.el,
+      width: this.el.getBoundingClientRect().width,
+      id: this.id,
+    })
+    window.addEventListener('resize', this.lazyRender(created))
+    return created
+  }
+
+  protected onRendered(renderer: Renderable) {
+    fitHeightToWidth(this.el)
+    super.onRendered(renderer)
+  }
+
+  protected reportError(error: Error) {
+    super.reportError(error)
+    // a diagram that rendered before stays up, with the error above it
+    if (this.rendered) return
+
+    const message = document.createElement('p')
+    message.className = 'flash flash-error mermaid-error'
+    message.textContent = error.message
+    this.el.replaceChildren(message)
+
+    const excerpt = error instanceof DiagramSyntaxError && formatSourceExcerpt(error.source, error.details)
+    if (excerpt) {
+      const pre = document.createElement('pre')
+      pre.className = 'mermaid-error-excerpt'
+      pre.textContent = excerpt
+      this.el.appendChild(pre)
+    }
+  }
+}
+
+export {MermaidStandaloneViewer}
@@ -0,0 +1,183 @@
+// eslint-disable-next-line import/namespace, import/no-deprecated, import/default, import/no-named-as-default, import/no-named-as-default-member
+import mermaid from 'mermaid'
+import type RewrittenSource from './rewritten-source'
+
+// Lines of source shown above and below the broken one
+const EXCERPT_CONTEXT = 2
+// Same as mermaid, the front matter is cut off before the diagram reaches its parser
+const FRONTMATTER = /^-{3}\s*[\n\r](.*?)[\n\r]-{3}\s*[\n\r]+/s
+// Token names in messages like `Expecting 'SEMI', 'NEWLINE', got 'EOF'`
+const QUOTED_TOKEN = /'([^']+)'/g
+const LINE_BREAK = /\r\n|\r|\n/g
+
+export type SyntaxErrorDetails = {
+  // 1-based, the way editors number lines and columns
+  line?: number
+  column?: number
+  // tokens the parser would have accepted instead
+  expected: string[]
+  // the text the parser stopped at
+  text?: string
+  diagramType?: string
+}
+
+// Error thrown by the grammars mermaid generates with jison, most of the older diagram types
+type JisonError = Error & {
+  hash: {text?: string; token?: string; expected?: string[]; loc?: {first_line: number; first_column: number}}
+}
+
+// Error thrown by the langium grammars of @mermaid-js/parser, architecture, pie, packet and the like
+type LangiumError = Error & {
+  result: {
+    lexerErrors: Array<{line?: number; column?: number; offset: number; length: number}>
+    parserErrors: Array<{message: string; token: {image: string; startLine?: number; startColumn?: number}}>
+  }
+}
+
+const isJisonError = (error: unknown): error is JisonError =>
+  error instanceof Error && typeof (error as JisonError).hash === 'object' && (error as JisonError).hash !== null
+
+const isLangiumError = (error: unknown): error is LangiumError =>
+  error instanceof Error && Array.isArray((error as LangiumError).result?.parserErrors)
+
+const unquote = (token: string) => token.replace(/^'(.*)'$/, '$1')
+
+const detectDiagramType = (source: string) => {
+  try {
+    return mermaid.detectType(source)
+  } catch {
+    return undefined
+  }
+}
+
+// Offsets the lines of `text` start at
+const lineStarts = (text: string) => [
+  0,
+  ...Array.from(text.matchAll(LINE_BREAK), match => match.index + match[0].length),
+]
+
+const toOffset = (text: string, line: number, column: number) =>
+  (lineStarts(text)[line - 1] ?? text.length) + column - 1
+
+const toPosition = (text: string, offset: number) => {
+  const starts = lineStarts(text).filter(start => start <= offset)
+  return {line: starts.length, column: offset - starts[starts.length - 1] + 1}
+}
+
+// Moves the position and text of `details` from the rewritten source mermaid parsed to the source
+// that was written, where inline icons and aliases take up a different number of columns
+function traceBack(details: SyntaxErrorDetails, source: RewrittenSource): SyntaxErrorDetails {
+  const {line, column, text} = details
+  const restored = text && source.restore(text)
+  if (!line || !column) return {...details, text: restored}
+
+  const start = toOffset(source.text, line, column)
+  const from = source.originalOffset(start)
+  const traced = {...details, ...toPosition(source.original, from)}
+  // parsers don't always quote the text at the position they stopped at
+  if (!text || source.text.slice(start, start + text.length) !== text) return {...traced, text: restored}
+
+  return {...traced, text: source.original.slice(from, source.originalOffset(start + text.length, true))}
+}
+
+/**
+ * A diagram whose source mermaid could not parse, with where it stopped so the embedding
+ * editor can highlight the broken line.
+ */
+export class DiagramSyntaxError extends Error {
+  source: string
+  details: SyntaxErrorDetails
+
+  constructor(error: Error, source: string, details: SyntaxErrorDetails, message = error.message) {
+    super(message, {cause: error})
+    this.source = source
+    this.details = details
+  }
+
+  // Wraps parser errors, anything else is returned unchanged. Mermaid parses the rewritten
+  // source, the error points into the one that was written.
+  static from(error: unknown, source: RewrittenSource) {
+    const details = describeSyntaxError(error, source.text)
+    if (!details) return error
+
+    const {message} = error as Error
+    return new DiagramSyntaxError(error as Error, source.original, traceBack(details, source), source.restore(message))
+  }
+}
+
+/**
+ * Reads the position and expected tokens out of the errors mermaid's parsers throw. Returns
+ * `undefined` for errors that don't come from a parser.
+ */
+export function describeSyntaxError(error: unknown, source: string): SyntaxErrorDetails | undefined {
+  // the parsers count lines from the end of the front matter
+  const offset = source.match(FRONTMATTER)?.[0].split(/\r\n|\r|\n/).length ?? 1
+  const diagramType = detectDiagramType(source)
+
+  if (isJisonError(error)) {
+    const {text, token, expected = [], loc} = error.hash
+    return {
+      line: loc ? loc.first_line + offset - 1 : undefined,
+      column: loc ? loc.first_column + 1 : undefined,
+      expected: expected.map(unquote),
+      text: text ?? token,
+      diagramType,
+    }
+  }
+
+  if (isLangiumError(error)) {
+    const [lexerError] = error.result.lexerErrors
+    const [parserError] = error.result.parserErrors
+    if (lexerError) {
+      return {
+        line: lexerError.line === undefined ? undefined : lexerError.line + offset - 1,
+        column: lexerError.column,
+        expected: [],
+        text: source.slice(lexerError.offset, lexerError.offset + lexerError.length) || undefined,
+        diagramType,
+      }
+    }
+    if (parserError) {
+      const {image, startLine, startColumn} = parserError.token
+      return {
+        line: startLine === undefined ? undefined : startLine + offset - 1,
+        column: startColumn,
+        expected: Array.from(parserError.message.matchAll(QUOTED_TOKEN), ([, name]) => name),
+        text: image || undefined,
+        diagramType,
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Lines around the broken one, numbered, with a caret under the column the parser stopped at:
+ *
+ *     1 | flowchart LR
+ *   > 2 |   A --> B -->
+ *       |              ^
+ */
+export function formatSourceExcerpt(source: string, {line, column}: SyntaxErrorDetails) {
+  const lines = source.split(/\r\n|\r|\n/)
+  if (!line || line > lines.length) return ''
+
+  const first = Math.max(line - EXCERPT_CONTEXT, 1)
+  const last = Math.min(line + EXCERPT_CONTEXT, lines.length)
+  const gutter = String(last).length
+  const excerpt: string[] = []
+
+  for (let number = first; number <= last; number++) {
+    const text = lines[number - 1]
+    excerpt.push(`${number === line ? '>' : ' '} ${String(number).padStart(gutter)} | ${text}`)
+
+    if (number === line && column) {
+      // keep tabs so the caret lines up with the text above it
+      const indent = text.slice(0, column - 1).replace(/[^\t]/g, ' ')
+      excerpt.push(`  ${' '.repeat(gutter)} | ${indent}^`)
+    }
+  }
+
+  return excerpt.join('\n')
+}
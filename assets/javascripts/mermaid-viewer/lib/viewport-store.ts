@@ -0,0 +1,72 @@
+import {hashString} from '../../render/utils'
+import type {Transform} from './pan-zoom'
+
+const KEY_PREFIX = 'mermaid-viewport'
+
+type SavedViewport = Transform & {
+  // width the diagram was rendered at when the viewport was saved
+  width: number
+}
+
+/**
+ * Keeps the pan and zoom of a diagram in sessionStorage, so it survives the diagram being
+ * rendered again and the viewer being recreated on navigation.
+ *
+ * Viewports are keyed by the iframe identity and a hash of the diagram source, an edited
+ * diagram starts from a fresh viewport.
+ */
+class ViewportStore {
+  identity: string
+  #key: string | null = null
+  #width = 0
+
+  constructor(identity: string) {
+    this.identity = identity
+  }
+
+  // Switches to the viewport of `source` rendered `width` wide, and returns the one saved for
+  // it, scaled to the new width. Only on the first render of that source, later renders of it
+  // keep whatever the user has panned to since.
+  load(source: string, width: number): Transform | null {
+    const key = `${KEY_PREFIX}:${this.identity}:${hashString(source)}`
+    const switched = key !== this.#key
+    this.#key = key
+    this.#width = width
+    if (!switched) return null
+
+    const saved = (() => {
+      try {
+        const json = sessionStorage.getItem(key)
+        return json ? (JSON.parse(json) as SavedViewport) : null
+      } catch {
+        return null
+      }
+    })()
+    if (!saved) return null
+
+    const ratio = saved.width ? width / saved.width : 1
+    return {zoom: saved.zoom, x: saved.x * ratio, y: saved.y * ratio}
+  }
+
+  save({zoom, x, y}: Transform) {
+    if (!this.#key) return
+
+    try {
+      sessionStorage.setItem(this.#key, JSON.stringify({zoom, x, y, width: this.#width}))
+    } catch {
+      return
+    }
+  }
+
+  clear() {
+    if (!this.#key) return
+
+    try {
+      sessionStorage.removeItem(this.#key)
+    } catch {
+      return
+    }
+  }
+}
+
+export default ViewportStore
@@ -0,0 +1,12 @@
+import '../../stylesheets/mermaid.scss'
+import '../render'
+import {onDocumentReady} from '../render/utils'
+import {renderAll, renderElement} from './lib/standalone-loader'
+
+function init() {
+  return renderAll()
+}
+
+export {init, renderAll, renderElement}
+
+onDocumentReady(init)
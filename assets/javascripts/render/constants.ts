@@ -25,9 +25,17 @@ export enum STATUS_TYPES {
   loading = 'loading',
   loaded = 'loaded',
   error = 'error',
+  // the diagram rendered, but some parts of it could not be drawn as written
+  warning = 'warning',
   fatal = 'error:fatal',
   invalid = 'error:invalid',
+  // the diagram goes over the render limits and waits for the user to render it anyway
+  tooLarge = 'error:too_large',
   ready = 'ready',
+  // hands an exported diagram file to the parent when the iframe can't download it
+  export = 'export',
+  // asks the parent to show the iframe in an overlay when it isn't allowed to go fullscreen
+  fullscreen = 'fullscreen',
   // these need to match the strings in github/github/app/assets/modules/github/behaviors/render-editor.ts
   markdown = 'code_rendering_service:markdown:get_data',
   getContainerSize = 'code_rendering_service:container:get_size',
@@ -39,6 +47,10 @@ export const enum MESSAGE_RESPONSE_TYPES {
   markdown = 'code_rendering_service:data:ready',
   containerSize = 'code_rendering_service:container:size',
   readyAck = 'code_rendering_service:ready:ack',
+  // the parent closed the fullscreen overlay on its own
+  fullscreenExit = 'code_rendering_service:fullscreen:exit',
+  // the parent asks for the diagram's saved pan and zoom to be dropped
+  viewportReset = 'code_rendering_service:viewport:reset',
 }
 
 /**
@@ -5,21 +5,22 @@ import {assertElement, invariant} from './utils'
  * Mostly used in geojson pins or within mermaid charts
  *
  * @param hasParent boolean Is this class instantiated from within an iframe?
+ * @param root? Only links inside this node are handled, defaults to the whole document
  */
 class LinkNavigator {
   private hasParent!: boolean
 
-  constructor({hasParent = false}) {
+  constructor({hasParent = false, root = document}: {hasParent?: boolean; root?: Document | HTMLElement}) {
     this.hasParent = hasParent
 
-    document.addEventListener('click', (event: MouseEvent) => {
+    root.addEventListener('click', ((event: MouseEvent) => {
       const target = event.target
       invariant(assertElement(target), `Expected click target to be an instance of Element. Got ${target} instead.`)
 
       if (this.isLinkableNode(target)) {
         this.handleLink(event)
       }
-    })
+    }) as EventListener)
   }
 
   private isLinkableNode = (node: Element) => {
@@ -66,6 +67,11 @@ class LinkNavigator {
   public navigateRelative = (relHref: string) => {
     const rootUrl = document.body.getAttribute('data-github-hostname')
 
+    // Outside of GitHub, e.g. when rendering straight on a docs page, links are relative to that page
+    if (!rootUrl) {
+      return this.navigateDirect(new URL(relHref, window.location.href).toString())
+    }
+
     // Using the URL constructor to build a full URL to take advantage of the built-in sanitization.
     const baseUrl = new URL(`https://${rootUrl}`)
     const prefixedRelHref = relHref.startsWith('/') ? relHref : `/${relHref}`
@@ -25,6 +25,13 @@ const isClientUrl = (url: string) => /^client:\/\//i.exec(url)
 type StatusOptions = {
   allowLinks?: boolean
   initialMessage?: STATUS_TYPES
+  // the part of the page links are handled in
+  linkRoot?: Document | HTMLElement
+  // Rendering straight on a page rather than in the render iframe, with no parent frame to
+  // talk to even when the page itself is framed
+  standalone?: boolean
+  // tells apart several renderables on the same page, defaults to the location hash
+  identity?: string
 }
 
 type RenderStatusMessage = {
@@ -44,6 +51,9 @@ type RenderableLoaderOptions = {
   attempts?: number
   timeout?: number
   json?: boolean
+  // Report loading, loaded and error statuses to the parent. Turn this off for optional
+  // content that the renderable can do without.
+  setStatus?: boolean
 }
 
 type DataResponseTypes = string | ArrayBuffer | TopoJSON | JSON | undefined
@@ -58,6 +68,7 @@ const renderableLoaderDefaults = {
 const statusOptionDefaults = {
   allowLinks: false,
   initialMessage: STATUS_TYPES.hello,
+  standalone: false,
 }
 
 /**
@@ -66,6 +77,9 @@ const statusOptionDefaults = {
  * @param format Valid renderable file format @see RENDER_FORMATS
  * @param opts.allowLinks? Should this class allow redirects from link within the render area?
  * @param opts.initial? The initial status message to be communicated
+ * @param opts.linkRoot? Where links are handled when allowLinks is set, defaults to the whole document
+ * @param opts.standalone? Keep statuses to this page, neither listening to nor posting to a parent frame
+ * @param opts.identity? Identity of the renderable, defaults to the location hash
  */
 class Status {
   acked = false
@@ -75,6 +89,7 @@ class Status {
   identity: string
   initialStatusTimeout: NodeJS.Timeout | null
   messages: RenderStatusMessage[]
+  standalone: boolean
 
   constructor(format: RENDER_FORMATS, opts: StatusOptions = {}) {
     const options = {...statusOptionDefaults, ...opts}
@@ -83,17 +98,20 @@ class Status {
     this.githubEnv = document.body.getAttribute('data-deploy-env') ?? 'development'
     this.format = format
     this.initialStatusTimeout = null
+    this.standalone = options.standalone
 
     if (options.allowLinks) {
-      new LinkNavigator({hasParent: this.haveParent()})
+      new LinkNavigator({hasParent: this.haveParent(), root: options.linkRoot})
     }
 
-    this.identity = window.location.hash.substring(1)
+    this.identity = options.identity ?? window.location.hash.substring(1)
 
     this.messages = [
       {status: STATUS_TYPES.constructor, payload: null, when: Date.now(), sent: true}, // Debugging ctor call timing
     ]
 
+    if (this.standalone) return
+
     window.addEventListener('message', this.handleMessage)
 
     if (this.haveParent()) {
@@ -141,7 +159,15 @@ class Status {
   set = (status: STATUS_TYPES, payload = {}) => {
     const sent = this.alreadySentStatus(status)
 
-    if (isDefined(sent) && ![STATUS_TYPES.hello, STATUS_TYPES.resize].includes(status)) {
+    const repeatable = [
+      STATUS_TYPES.hello,
+      STATUS_TYPES.resize,
+      STATUS_TYPES.warning,
+      STATUS_TYPES.export,
+      STATUS_TYPES.fullscreen,
+      STATUS_TYPES.tooLarge,
+    ]
+    if (isDefined(sent) && !repeatable.includes(status)) {
       const ago = Math.abs(Date.now() - sent.when)
       return window.debug(`Already set status '${status}' ${ago}ms ago`)
     }
@@ -205,7 +231,7 @@ class Status {
         const maybeJson = await result.text()
         return JSON.parse(unescape(maybeJson))
       } catch {
-        this.set(STATUS_TYPES.fatal)
+        if (options.setStatus) this.set(STATUS_TYPES.fatal)
         this.reportStatusError(new FailedError())
       }
     }
@@ -221,9 +247,9 @@ class Status {
       this.reportStatusError(new InvalidProtocolError())
     }
 
-    this.set(STATUS_TYPES.loading)
-
     const finalOptions = {...renderableLoaderDefaults, ...opts} as RenderableLoaderOptions & RenderableLoaderCallbacks
+    if (finalOptions.setStatus) this.set(STATUS_TYPES.loading)
+
     finalOptions.attempts = finalOptions.attempts ?? this.clientTimeoutAttempts()
     finalOptions.before = finalOptions.before ?? this.#onBeforeSend
     finalOptions.success = finalOptions.success ?? this.#onSuccess
@@ -246,7 +272,7 @@ class Status {
 
       if (response.status < 400) {
         const data = await this.#prepareFetchedData(response, finalOptions)
-        this.set(STATUS_TYPES.loaded)
+        if (finalOptions.setStatus) this.set(STATUS_TYPES.loaded)
         finalOptions.success(data, response)
 
         return
@@ -264,8 +290,10 @@ class Status {
         this.load(url, finalOptions)
       }, 1000)
     } else {
-      this.set(STATUS_TYPES.error)
-      this.submitGiveup()
+      if (finalOptions.setStatus) {
+        this.set(STATUS_TYPES.error)
+        this.submitGiveup()
+      }
       const error = new FailedError()
       finalOptions.error(error, new Response(null, {status: 500}))
       this.reportStatusError(error)
@@ -324,6 +352,11 @@ class Status {
   submitTiming = (origin: string, timing: Record<string, unknown>) => {
     window.debug(`Got ${origin} timing: ${this.format} => ${JSON.stringify(timing)}`)
     const baseRenderUrl = document.body.getAttribute('data-render-url')
+    // Only the render service collects stats, not pages that render on their own
+    if (!baseRenderUrl) {
+      return window.debug('No render url, not sending timing info')
+    }
+
     const didQueue = navigator.sendBeacon?.(
       `${baseRenderUrl}/stats/timing/${origin}/${this.format}/`,
       JSON.stringify(timing),
@@ -338,6 +371,9 @@ class Status {
 
   submitGiveup = () => {
     const baseRenderUrl = document.body.getAttribute('data-render-url')
+    if (!baseRenderUrl) {
+      return window.debug('No render url, not sending give up info')
+    }
 
     const didQueue = navigator.sendBeacon?.(`${baseRenderUrl}/stats/${this.format}/gave_up`)
 
@@ -377,6 +413,12 @@ class Status {
       case MESSAGE_RESPONSE_TYPES.readyAck:
         this.trigger(document, MESSAGE_RESPONSE_TYPES.readyAck)
         break
+      case MESSAGE_RESPONSE_TYPES.fullscreenExit:
+        this.trigger(document, MESSAGE_RESPONSE_TYPES.fullscreenExit)
+        break
+      case MESSAGE_RESPONSE_TYPES.viewportReset:
+        this.trigger(document, MESSAGE_RESPONSE_TYPES.viewportReset)
+        break
       default:
         window.debug(`Invalid command '${cmd}':`, arg)
     }
@@ -444,7 +486,7 @@ class Status {
 
   // Is the viewscreen renderer running inside an iframe?
   haveParent = () => {
-    return window.parent !== window
+    return !this.standalone && window.parent !== window
   }
 
   clientTimeoutAttempts() {
@@ -57,3 +57,13 @@ export const openLinksInParent = (node: Element) => {
   for (const link of node.querySelectorAll('a'))
     if (!link.hasAttribute('_target')) link.setAttribute('target', '_parent')
 }
+
+/** A short, non-cryptographic FNV-1a hash of a string, for building cache and storage keys. */
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}